@@ -32,7 +32,7 @@ const nextConfig: NextConfig = {
   },
   experimental: {
     serverActions: {
-      bodySizeLimit: '100mb', // Increase body size limit for large frame data uploads
+      bodySizeLimit: '100mb', // Media files are uploaded through server actions
     },
   },
    webpack(config, { isServer }) {
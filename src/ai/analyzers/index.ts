@@ -0,0 +1,21 @@
+import { analyzeTextInputForEmotion } from '@/ai/flows/analyze-text-input-for-emotion';
+import type { EmotionAnalyzerId } from '@/app/types';
+import { ruleBasedEmotionAnalyzer } from './rule-based-analyzer';
+import type { EmotionAnalyzer } from './types';
+
+export const genkitEmotionAnalyzer: EmotionAnalyzer = {
+  id: 'genkit',
+  analyze: analyzeTextInputForEmotion,
+};
+
+const analyzers: Record<EmotionAnalyzerId, EmotionAnalyzer> = {
+  genkit: genkitEmotionAnalyzer,
+  'rule-based': ruleBasedEmotionAnalyzer,
+};
+
+export function getEmotionAnalyzer(id: EmotionAnalyzerId): EmotionAnalyzer {
+  return analyzers[id];
+}
+
+export { ruleBasedEmotionAnalyzer } from './rule-based-analyzer';
+export type { EmotionAnalyzer } from './types';
@@ -0,0 +1,79 @@
+// Word lists for the offline emotion classifier. Entries are lower case and
+// NFC-normalised; multi-word entries match as whole phrases. Vietnamese
+// entries are written with diacritics, since stripping them makes many words
+// ambiguous (e.g. "buồn" sad vs. "buôn" trade).
+export const EMOTION_LEXICON: Record<string, { en: string[]; vi: string[] }> = {
+  happy: {
+    en: [
+      'happy', 'joy', 'joyful', 'glad', 'smile', 'smiling', 'laugh', 'laughing',
+      'love', 'lovely', 'sweet', 'wonderful', 'beautiful', 'sunshine', 'delight',
+      'cheerful', 'fun', 'yay', 'great', 'awesome', 'amazing', 'blessed',
+    ],
+    vi: [
+      'vui', 'vui vẻ', 'hạnh phúc', 'cười', 'nụ cười', 'yêu', 'thương',
+      'ngọt ngào', 'tuyệt vời', 'xinh', 'đẹp', 'hân hoan', 'rạng rỡ',
+      'mừng', 'sung sướng', 'nắng',
+    ],
+  },
+  sad: {
+    en: [
+      'sad', 'cry', 'crying', 'cried', 'tears', 'alone', 'lonely', 'miss',
+      'missing', 'goodbye', 'lost', 'broken', 'heartbreak', 'pain', 'hurt',
+      'sorrow', 'rain', 'cold', 'empty', 'regret', 'gone', 'never again',
+    ],
+    vi: [
+      'buồn', 'khóc', 'nước mắt', 'cô đơn', 'nhớ', 'chia tay', 'xa',
+      'đau', 'đau lòng', 'tổn thương', 'mưa', 'lạnh', 'trống vắng',
+      'tiếc', 'mất', 'lẻ loi', 'tạm biệt', 'vỡ',
+    ],
+  },
+  energetic: {
+    en: [
+      "let's go", 'go', 'party', 'dance', 'jump', 'run', 'fire', 'wild',
+      'power', 'energy', 'hype', 'move', 'fast', 'loud', 'now', 'come on',
+      'rock', 'boom', 'alive', 'crazy',
+    ],
+    vi: [
+      'đi nào', 'quẩy', 'nhảy', 'cháy', 'bùng nổ', 'lên nào', 'chạy',
+      'sôi động', 'mạnh mẽ', 'tiến lên', 'cùng nhau', 'hét', 'nhanh',
+      'bay', 'phiêu',
+    ],
+  },
+  calm: {
+    en: [
+      'calm', 'peace', 'peaceful', 'quiet', 'gentle', 'soft', 'slow',
+      'breathe', 'relax', 'still', 'dream', 'sleep', 'night', 'moon',
+      'ocean', 'breeze', 'softly', 'serene',
+    ],
+    vi: [
+      'bình yên', 'yên', 'nhẹ nhàng', 'êm', 'êm đềm', 'lặng', 'tĩnh lặng',
+      'thư thái', 'chậm', 'mơ', 'giấc mơ', 'ngủ', 'đêm', 'trăng', 'gió',
+      'biển', 'dịu dàng',
+    ],
+  },
+  angry: {
+    en: [
+      'angry', 'hate', 'rage', 'mad', 'furious', 'damn', 'stop', 'enough',
+      'liar', 'betray', 'fight', 'kill', 'scream', 'shut up', 'annoying',
+    ],
+    vi: [
+      'giận', 'tức', 'tức giận', 'ghét', 'căm', 'điên', 'bực', 'phản bội',
+      'dối trá', 'im đi', 'đủ rồi', 'cút', 'đánh', 'chửi',
+    ],
+  },
+};
+
+export const NEGATIONS = [
+  'not', 'no', 'never', "don't", "didn't", "can't", "won't", "isn't",
+  'không', 'chẳng', 'chả', 'đừng', 'chưa',
+];
+
+export const EMOJI_EMOTIONS: Record<string, string> = {
+  '😀': 'happy', '😃': 'happy', '😄': 'happy', '😁': 'happy', '😊': 'happy',
+  '😍': 'happy', '🥰': 'happy', '😂': 'happy', '❤': 'happy', '💕': 'happy',
+  '😢': 'sad', '😭': 'sad', '💔': 'sad', '😞': 'sad', '😔': 'sad', '🥀': 'sad',
+  '🔥': 'energetic', '⚡': 'energetic', '🎉': 'energetic', '💃': 'energetic',
+  '🚀': 'energetic', '💥': 'energetic',
+  '😌': 'calm', '🌙': 'calm', '🌊': 'calm', '🍃': 'calm', '😴': 'calm',
+  '😡': 'angry', '🤬': 'angry', '😠': 'angry', '👿': 'angry',
+};
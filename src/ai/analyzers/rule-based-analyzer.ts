@@ -0,0 +1,113 @@
+import type {
+  AnalyzeTextInputForEmotionInput,
+  AnalyzeTextInputForEmotionOutput,
+} from '@/ai/flows/analyze-text-input-for-emotion';
+import type { EmotionAnalyzer } from './types';
+import { getAnimationsForEmotion } from '@/lib/animations';
+import { EMOJI_EMOTIONS, EMOTION_LEXICON, NEGATIONS } from './lexicon';
+
+// A winning emotion needs at least this much evidence; otherwise neutral.
+const MIN_SCORE = 1;
+
+const PHRASES = Object.entries(EMOTION_LEXICON).flatMap(([emotion, words]) =>
+  [...words.en, ...words.vi].map((phrase) => ({
+    emotion,
+    tokens: phrase.normalize('NFC').split(' '),
+  }))
+);
+
+function tokenize(text: string): string[] {
+  return text
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}'\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+function isNegated(tokens: string[], index: number): boolean {
+  return tokens
+    .slice(Math.max(0, index - 2), index)
+    .some((token) => NEGATIONS.includes(token));
+}
+
+export function scoreEmotions(text: string): Record<string, number> {
+  const scores: Record<string, number> = Object.fromEntries(
+    Object.keys(EMOTION_LEXICON).map((emotion) => [emotion, 0])
+  );
+  const tokens = tokenize(text);
+
+  for (const { emotion, tokens: phrase } of PHRASES) {
+    for (let i = 0; i + phrase.length <= tokens.length; i++) {
+      if (!phrase.every((word, j) => tokens[i + j] === word)) continue;
+      // "không vui" / "not happy" should not count towards happy.
+      if (isNegated(tokens, i)) {
+        if (emotion === 'happy') scores.sad += 0.5;
+        continue;
+      }
+      // Longer phrases are more specific than single words.
+      scores[emotion] += phrase.length;
+    }
+  }
+
+  for (const char of text) {
+    const emotion = EMOJI_EMOTIONS[char];
+    if (emotion) scores[emotion] += 1.5;
+  }
+
+  const exclamations = (text.match(/!/g) ?? []).length;
+  if (exclamations > 0) {
+    const intensity = Math.min(exclamations, 3) * 0.5;
+    // Exclamation amplifies anger when present, otherwise reads as energy.
+    if (scores.angry > 0) scores.angry += intensity;
+    else scores.energetic += intensity;
+  }
+
+  if (/(\.\.\.|…)\s*$/.test(text.trim())) {
+    if (scores.sad >= scores.calm) scores.sad += 0.75;
+    else scores.calm += 0.75;
+  }
+
+  const letterWords = text.match(/\p{L}{3,}/gu) ?? [];
+  const shouted = letterWords.filter(
+    (word) => word === word.toUpperCase() && word !== word.toLowerCase()
+  );
+  if (letterWords.length > 0 && shouted.length / letterWords.length >= 0.6) {
+    if (scores.angry > 0) scores.angry += 1;
+    else scores.energetic += 1;
+  }
+
+  return scores;
+}
+
+export function classifyEmotion(text: string): string {
+  const scores = scoreEmotions(text);
+  let best = 'neutral';
+  let bestScore = MIN_SCORE - Number.EPSILON;
+  for (const [emotion, score] of Object.entries(scores)) {
+    if (score > bestScore) {
+      best = emotion;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function splitSentences(text: string): string[] {
+  return (text.match(/[^.!?…\n]+[.!?…]*/g) ?? [])
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+export const ruleBasedEmotionAnalyzer: EmotionAnalyzer = {
+  id: 'rule-based',
+  async analyze(
+    input: AnalyzeTextInputForEmotionInput
+  ): Promise<AnalyzeTextInputForEmotionOutput> {
+    const segments = input.segments ?? splitSentences(input.text);
+    return segments.map((text) => {
+      const emotion = classifyEmotion(text);
+      return { text, emotion, animations: getAnimationsForEmotion(emotion) };
+    });
+  },
+};
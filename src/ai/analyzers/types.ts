@@ -0,0 +1,12 @@
+import type {
+  AnalyzeTextInputForEmotionInput,
+  AnalyzeTextInputForEmotionOutput,
+} from '@/ai/flows/analyze-text-input-for-emotion';
+import type { EmotionAnalyzerId } from '@/app/types';
+
+export interface EmotionAnalyzer {
+  id: EmotionAnalyzerId;
+  analyze(
+    input: AnalyzeTextInputForEmotionInput
+  ): Promise<AnalyzeTextInputForEmotionOutput>;
+}
@@ -0,0 +1,104 @@
+import {
+  getEmotionAnalyzer,
+  ruleBasedEmotionAnalyzer,
+  type EmotionAnalyzer,
+} from '@/ai/analyzers';
+import type {EmotionAnalyzerId} from '@/app/types';
+import {isRegisteredAnimation} from '@/lib/animations';
+
+export interface SegmentEmotion {
+  emotion: string;
+  animations: string[];
+}
+
+export const NEUTRAL_EMOTION: SegmentEmotion = {
+  emotion: 'neutral',
+  animations: ['fadeIn'],
+};
+
+const DEFAULT_BATCH_SIZE = 20;
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function toSegmentEmotion(result: unknown): SegmentEmotion | null {
+  if (!result || typeof result !== 'object') return null;
+  const {emotion, animations} = result as Partial<SegmentEmotion>;
+  if (typeof emotion !== 'string' || !emotion.trim()) return null;
+  return {
+    emotion: emotion.trim().toLowerCase(),
+    // Models occasionally invent effects; keep only ones we can render.
+    animations: Array.isArray(animations)
+      ? animations.filter(
+          (a): a is string => typeof a === 'string' && isRegisteredAnimation(a)
+        )
+      : [],
+  };
+}
+
+async function analyzeBatch(
+  analyzer: EmotionAnalyzer,
+  texts: string[],
+  emotions?: string[]
+): Promise<SegmentEmotion[]> {
+  let results: Awaited<ReturnType<EmotionAnalyzer['analyze']>>;
+  try {
+    results = await analyzer.analyze({
+      text: texts.join('\n'),
+      segments: texts,
+      emotions,
+    });
+  } catch (e) {
+    if (analyzer === ruleBasedEmotionAnalyzer) {
+      console.warn('Emotion analysis failed for batch, using defaults.', e);
+      return texts.map(() => NEUTRAL_EMOTION);
+    }
+    // The offline classifier needs no network, so it stands in for a cloud
+    // analyzer that is unreachable or misbehaving.
+    console.warn('Emotion analysis failed for batch, using rule-based fallback.', e);
+    return analyzeBatch(ruleBasedEmotionAnalyzer, texts, emotions);
+  }
+
+  // The model is asked for one result per segment in order; if it merged or
+  // dropped any, fall back to matching on the echoed text.
+  const inOrder = results.length === texts.length;
+  const byText = new Map(results.map(r => [normalize(r.text), r]));
+
+  return texts.map((text, i) => {
+    const candidate =
+      inOrder && normalize(results[i].text) === normalize(text)
+        ? results[i]
+        : byText.get(normalize(text)) ?? (inOrder ? results[i] : undefined);
+    return toSegmentEmotion(candidate) ?? NEUTRAL_EMOTION;
+  });
+}
+
+/**
+ * Classifies each text with the chosen analyzer in batches. The result lines
+ * up index-for-index with `texts`; a batch the analyzer fails on is retried
+ * with the rule-based classifier, and any segment still without a usable
+ * answer gets the neutral default instead of failing the whole run.
+ */
+export async function analyzeSegmentEmotions(
+  texts: string[],
+  {
+    analyzer = 'genkit',
+    batchSize = DEFAULT_BATCH_SIZE,
+    emotions,
+  }: {
+    analyzer?: EmotionAnalyzerId;
+    batchSize?: number;
+    /** Labels the analyzer should prefer, e.g. the user's custom emotions. */
+    emotions?: string[];
+  } = {}
+): Promise<SegmentEmotion[]> {
+  const selected = getEmotionAnalyzer(analyzer);
+  const analyses: SegmentEmotion[] = [];
+  for (let start = 0; start < texts.length; start += batchSize) {
+    analyses.push(
+      ...(await analyzeBatch(selected, texts.slice(start, start + batchSize), emotions))
+    );
+  }
+  return analyses;
+}
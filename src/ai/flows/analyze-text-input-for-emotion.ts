@@ -7,11 +7,20 @@
  * - AnalyzeTextInputForEmotionOutput - The return type for the analyzeTextInputForEmotion function.
  */
 
-import {ai} from '@/ai/genkit';
+import {ai, AI_MODEL} from '@/ai/genkit';
 import {z} from 'genkit';
+import {describeAnimationsForPrompt} from '@/lib/animations';
 
 const AnalyzeTextInputForEmotionInputSchema = z.object({
   text: z.string().describe('The text to analyze for emotion.'),
+  segments: z
+    .array(z.string())
+    .optional()
+    .describe('Pre-split segments (e.g. subtitle cues). When given, exactly one result is returned per segment, in order.'),
+  emotions: z
+    .array(z.string())
+    .optional()
+    .describe('Emotion labels to choose from, e.g. custom ones the user has animations for.'),
 });
 export type AnalyzeTextInputForEmotionInput = z.infer<typeof AnalyzeTextInputForEmotionInputSchema>;
 
@@ -35,14 +44,30 @@ const analyzeTextInputForEmotionFlow = ai.defineFlow(
     outputSchema: AnalyzeTextInputForEmotionOutputSchema,
   },
   async input => {
+    const task = input.segments
+      ? `Analyze each of the following subtitle segments and determine the emotion it conveys. Suggest animations that would be appropriate for each segment based on its emotion. Return exactly one object per segment, in the same order, with the segment copied unchanged into the 'text' field.
+
+Segments:
+\`\`\`json
+${JSON.stringify(input.segments)}
+\`\`\``
+      : `Analyze the following text and determine the emotion conveyed by each sentence or phrase. Suggest animations that would be appropriate for each segment based on its emotion.
+
+Text: ${input.text}`;
+
+    const emotionInstruction = input.emotions?.length
+      ? `The 'emotion' field should be one of these labels: ${input.emotions.map(e => `'${e}'`).join(', ')}. Only if none of them fits, use 'neutral' or another single word describing the primary emotion.`
+      : `The 'emotion' field should be a single word describing the primary emotion (e.g., 'sad', 'happy', 'energetic', 'calm', 'angry').`;
+
     const {output} = await ai.generate({
       prompt: `You are an AI that analyzes the emotion of text segments and suggests suitable animations.
 
-Analyze the following text and determine the emotion conveyed by each sentence or phrase. Suggest animations that would be appropriate for each segment based on its emotion.
+${task}
 
-Text: ${input.text}
+Respond with a JSON array, where each object contains the original text segment, the detected emotion, and an array of suggested animations.  ${emotionInstruction}  The animations should be selected from this list (use the id before the colon):
+${describeAnimationsForPrompt()}
 
-Respond with a JSON array, where each object contains the original text segment, the detected emotion, and an array of suggested animations.  The 'emotion' field should be a single word describing the primary emotion (e.g., 'sad', 'happy', 'energetic', 'calm', 'angry').  The animations should be selected from this list: fadeIn, rainText, bounceLetters, flash, slide, zoom-in, shake, gradient-text. If no animations are suitable, return an empty array for animations.
+If no animations are suitable, return an empty array for animations.
 
 Example output:
 [
@@ -58,7 +83,7 @@ Example output:
   }
 ]
 `,
-      model: 'googleai/gemini-1.5-flash',
+      model: AI_MODEL,
       output: {
         schema: AnalyzeTextInputForEmotionOutputSchema
       }
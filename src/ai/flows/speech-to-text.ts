@@ -1,14 +1,14 @@
 'use server';
 
 /**
- * @fileOverview Transcribes audio or video data to text.
+ * @fileOverview Transcribes audio or video data into timed segments.
  *
  * - speechToText - A function that handles the speech-to-text process.
  * - SpeechToTextInput - The input type for the speechToText function.
  * - SpeechToTextOutput - The return type for the speechToText function.
  */
 
-import { ai } from '@/ai/genkit';
+import { ai, AI_MODEL } from '@/ai/genkit';
 import { z } from 'genkit';
 
 const SpeechToTextInputSchema = z.object({
@@ -20,8 +20,31 @@ const SpeechToTextInputSchema = z.object({
 });
 export type SpeechToTextInput = z.infer<typeof SpeechToTextInputSchema>;
 
+const TimedWordSchema = z.object({
+  text: z.string().describe('A single spoken word.'),
+  startTime: z.number().describe('When the word starts, in seconds.'),
+  endTime: z.number().describe('When the word ends, in seconds.'),
+});
+
+const TranscriptSegmentSchema = z.object({
+  text: z.string().describe('The transcribed text of the segment.'),
+  startTime: z.number().describe('When the segment starts, in seconds.'),
+  endTime: z.number().describe('When the segment ends, in seconds.'),
+  words: z
+    .array(TimedWordSchema)
+    .optional()
+    .describe('Timings of the individual words in the segment.'),
+});
+
+const TranscriptSchema = z.object({
+  segments: z.array(TranscriptSegmentSchema),
+});
+
 const SpeechToTextOutputSchema = z.object({
-  text: z.string().describe('The transcribed text from the media file.'),
+  text: z.string().describe('The full transcribed text of the media file.'),
+  segments: z
+    .array(TranscriptSegmentSchema)
+    .describe('The transcription split into timed, subtitle-sized segments.'),
 });
 export type SpeechToTextOutput = z.infer<typeof SpeechToTextOutputSchema>;
 
@@ -33,15 +56,49 @@ export async function speechToText(
 
 const prompt = ai.definePrompt({
   name: 'speechToTextPrompt',
+  model: AI_MODEL,
   input: { schema: SpeechToTextInputSchema },
-  output: { schema: SpeechToTextOutputSchema },
+  output: { schema: TranscriptSchema },
   prompt: `You are a highly accurate speech-to-text transcription service. Transcribe the audio from the following file.
 
   {{media url=mediaDataUri}}
-  
-  Return only the transcribed text.`,
+
+  Split the transcription into short subtitle segments of at most two lines (roughly 42 characters per line), breaking at natural pauses. For every segment give its start and end time in seconds from the beginning of the file, and the start and end time of each word in it.`,
 });
 
+type TranscriptSegment = z.infer<typeof TranscriptSegmentSchema>;
+
+// Models occasionally return overlapping, reversed or empty entries; keep
+// only usable segments, in order, with word timings inside their segment.
+function normalizeSegments(segments: TranscriptSegment[]): TranscriptSegment[] {
+  return segments
+    .map((segment) => ({ ...segment, text: segment.text.trim() }))
+    .filter(
+      (segment) =>
+        segment.text &&
+        isFinite(segment.startTime) &&
+        isFinite(segment.endTime) &&
+        segment.endTime > segment.startTime &&
+        segment.startTime >= 0
+    )
+    .sort((a, b) => a.startTime - b.startTime)
+    .map(({ words, ...segment }) => {
+      const timedWords = words
+        ?.filter(
+          (word) =>
+            word.text.trim() &&
+            word.endTime > segment.startTime &&
+            word.startTime < segment.endTime
+        )
+        .map((word) => ({
+          text: word.text.trim(),
+          startTime: Math.max(word.startTime, segment.startTime),
+          endTime: Math.min(word.endTime, segment.endTime),
+        }));
+      return timedWords?.length ? { ...segment, words: timedWords } : segment;
+    });
+}
+
 const speechToTextFlow = ai.defineFlow(
   {
     name: 'speechToTextFlow',
@@ -50,6 +107,10 @@ const speechToTextFlow = ai.defineFlow(
   },
   async (input) => {
     const { output } = await prompt(input);
-    return output!;
+    const segments = normalizeSegments(output?.segments ?? []);
+    return {
+      text: segments.map((segment) => segment.text).join(' '),
+      segments,
+    };
   }
 );
@@ -1,12 +1,24 @@
 import {genkit} from 'genkit';
 import {googleAI} from '@genkit-ai/google-genai';
+import {defineStubModel, STUB_MODEL_NAME} from '@/ai/stub-model';
+
+// Set AIVOS_AI_MODEL=aivos/stub to run every flow against the offline stub
+// model, or to another registered model to switch providers.
+export const AI_MODEL = process.env.AIVOS_AI_MODEL || 'googleai/gemini-1.5-flash';
 
 export const ai = genkit({
-  plugins: [
-    googleAI({
-      apiKey: process.env.GEMINI_API_KEY,
-    }),
-  ],
+  // The Google AI plugin refuses to initialise without an API key, so it is
+  // left out entirely when running offline against the stub.
+  plugins:
+    AI_MODEL === STUB_MODEL_NAME
+      ? []
+      : [
+          googleAI({
+            apiKey: process.env.GEMINI_API_KEY,
+          }),
+        ],
   logLevel: 'debug',
   enableTracingAndMetrics: true,
 });
+
+defineStubModel(ai);
@@ -0,0 +1,84 @@
+/**
+ * @fileOverview A deterministic, offline Genkit model for trying the flows without network access or an API key.
+ *
+ * - defineStubModel - Registers the `aivos/stub` model on a Genkit instance.
+ * - setStubModelResponder - Replaces how the stub answers prompts, e.g. to simulate failures.
+ * - STUB_TRANSCRIPT - What the stub "hears" in any audio or video it is given.
+ */
+
+import type {Genkit} from 'genkit';
+import type {GenerateRequest} from 'genkit/model';
+
+export const STUB_MODEL_NAME = 'aivos/stub';
+
+export type StubResponder = (
+  prompt: string,
+  request: GenerateRequest
+) => unknown | Promise<unknown>;
+
+export const STUB_TRANSCRIPT = {
+  segments: [
+    {
+      text: 'Hello and welcome',
+      startTime: 0.5,
+      endTime: 2,
+      words: [
+        {text: 'Hello', startTime: 0.5, endTime: 1},
+        {text: 'and', startTime: 1.1, endTime: 1.3},
+        {text: 'welcome', startTime: 1.3, endTime: 2},
+      ],
+    },
+    {
+      text: "Let's get started",
+      startTime: 2.5,
+      endTime: 4,
+      words: [
+        {text: "Let's", startTime: 2.5, endTime: 2.9},
+        {text: 'get', startTime: 2.9, endTime: 3.2},
+        {text: 'started', startTime: 3.2, endTime: 4},
+      ],
+    },
+  ],
+};
+
+// Prompts with media are transcriptions and get the canned transcript.
+// Prompts that want per-item answers embed their items as the first ```json
+// block. By default each item comes back as neutral with a fade in.
+const defaultResponder: StubResponder = (prompt, request) => {
+  const hasMedia = request.messages.some(message =>
+    message.content.some(part => part.media)
+  );
+  if (hasMedia) return STUB_TRANSCRIPT;
+  const block = /```json\s*([\s\S]*?)```/.exec(prompt);
+  if (!block) return [];
+  const items = JSON.parse(block[1]);
+  if (!Array.isArray(items)) return [];
+  return items.map((text) => ({
+    text: String(text),
+    emotion: 'neutral',
+    animations: ['fadeIn'],
+  }));
+};
+
+let responder: StubResponder = defaultResponder;
+
+export function setStubModelResponder(next?: StubResponder) {
+  responder = next ?? defaultResponder;
+}
+
+export function defineStubModel(ai: Genkit) {
+  return ai.defineModel({name: STUB_MODEL_NAME}, async request => {
+    const prompt = request.messages
+      .flatMap(message => message.content)
+      .map(part => part.text ?? '')
+      .join('\n');
+    const output = await responder(prompt, request);
+    return {
+      message: {
+        role: 'model',
+        content: [{text: JSON.stringify(output)}],
+      },
+      finishReason: 'stop',
+    };
+  });
+}
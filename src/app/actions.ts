@@ -2,84 +2,115 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import os from 'os';
-import ffmpeg from 'fluent-ffmpeg';
-
-import type { AnimationSegment } from './types';
-
-function parseTimeToSeconds(time: string): number {
-  const parts = time.replace(',', '.').split(':');
-  if (parts.length !== 3) return 0;
-  const hours = parseInt(parts[0], 10);
-  const minutes = parseInt(parts[1], 10);
-  const seconds = parseFloat(parts[2]);
-  if (isNaN(hours) || isNaN(minutes) || isNaN(seconds)) return 0;
-  return hours * 3600 + minutes * 60 + seconds;
-}
-
-function parseSrt(srtContent: string): Omit<AnimationSegment, 'emotion' | 'animations'>[] {
-  const segments: Omit<AnimationSegment, 'emotion' | 'animations'>[] = [];
-  const blocks = srtContent.trim().replace(/\r\n/g, '\n').split('\n\n');
-
-  for (const block of blocks) {
-    const lines = block.split('\n');
-    if (lines.length < 2) continue;
-
-    let timeLineIndex = -1;
-    for (let i = 0; i < lines.length; i++) {
-      if (lines[i].includes('-->')) {
-        timeLineIndex = i;
-        break;
-      }
-    }
+import { z } from 'zod';
 
-    if (timeLineIndex === -1) continue;
+import {
+  AnimationSegmentSchema,
+  AspectRatioSchema,
+  EmotionAnalyzerIdSchema,
+  EmotionMappingSchema,
+  FitModeSchema,
+  SegmentStyleSchema,
+  StylePresetSchema,
+  type AnimationSegment,
+  type EmotionAnalyzerId,
+  type EmotionMapping,
+  type StylePreset,
+  type SubtitleCue,
+} from './types';
+import {
+  parseSubtitles,
+  serializeSubtitles,
+  type SubtitleExportOptions,
+  type SubtitleFormat,
+} from '@/lib/subtitles';
+import { alignLines, getSpeechRegions, splitTextLines } from '@/lib/alignment';
+import { detectSilences } from '@/lib/silence-detection';
+import { applyEmotionMapping, DEFAULT_EMOTION_MAPPING } from '@/lib/emotions';
+import { getSessionRenderStages, renderSessionVideo } from '@/lib/render/ffmpeg';
+import { getProjectRenderStages, renderProjectVideo } from '@/lib/render/headless';
+import { cancelRenderJob, enqueueRenderJob, getRenderJob } from '@/lib/render/jobs';
+import type { RenderJobStatus } from '@/lib/render/job-status';
+import { formatZodError, parseProject } from '@/lib/project';
+import { parseExportSettings } from '@/lib/render/export-settings';
+import {
+  createRenderSession,
+  deleteRenderSession,
+  getRenderSession,
+  writeRenderFrames,
+  type RenderSession,
+} from '@/lib/render/session';
+import { listUserFonts, saveUserFont } from '@/lib/font-store';
+import {
+  deleteServerPreset,
+  listServerPresets,
+  saveServerPreset,
+} from '@/lib/preset-store';
+import { MAX_FONT_FILE_SIZE, type UserFont } from '@/lib/fonts';
+import { analyzeSegmentEmotions } from '@/ai/emotion-analysis';
+import { speechToText } from '@/ai/flows/speech-to-text';
 
-    const timeLine = lines[timeLineIndex];
-    const [startStr, endStr] = timeLine.split(' --> ');
-    const textLines = lines.slice(timeLineIndex + 1);
+const FORMAT_LABELS: Record<SubtitleFormat, string> = {
+  srt: 'SRT',
+  vtt: 'WebVTT',
+  ass: 'ASS/SSA',
+};
 
-    if (!startStr || !endStr || textLines.length === 0) continue;
+const SubtitleExportOptionsSchema = z.object({
+  aspectRatio: AspectRatioSchema.optional(),
+  style: SegmentStyleSchema.optional(),
+});
 
-    const startTime = parseTimeToSeconds(startStr.trim());
-    const endTime = parseTimeToSeconds(endStr.trim());
-    const text = textLines.join('\n').trim();
+interface AnimateOptions {
+  emotionAnalyzer?: EmotionAnalyzerId;
+  emotionMapping?: EmotionMapping;
+}
 
-    if (isFinite(startTime) && isFinite(endTime) && text) {
-      segments.push({
-        startTime,
-        endTime,
-        text,
-      });
-    }
+async function animateCues(
+  cues: SubtitleCue[],
+  { emotionAnalyzer, emotionMapping }: AnimateOptions = {}
+): Promise<AnimationSegment[]> {
+  // The mapping comes from the client, so it is checked like any input.
+  const parsedMapping = EmotionMappingSchema.safeParse(
+    emotionMapping ?? DEFAULT_EMOTION_MAPPING
+  );
+  if (!parsedMapping.success) {
+    throw new Error(`Invalid emotion mapping. ${formatZodError(parsedMapping.error)}`);
   }
+  const mapping = parsedMapping.data;
+  const analyses = await analyzeSegmentEmotions(
+    cues.map((cue) => cue.text),
+    { analyzer: emotionAnalyzer, emotions: mapping.map((rule) => rule.emotion) }
+  );
 
-  return segments;
+  // The user's mapping replaces the suggested animations, but animations
+  // given by the source format (e.g. ASS override tags) win over both.
+  return cues.map(({ animations, ...cue }, i) => {
+    const segment = applyEmotionMapping(
+      { ...cue, emotion: analyses[i].emotion, animations: analyses[i].animations },
+      mapping
+    );
+    return animations ? { ...segment, animations } : segment;
+  });
 }
 
-
 export async function generateAnimationFromSrtAction(
-  srt: string
+  srt: string,
+  options: AnimateOptions = {}
 ): Promise<{
   data: AnimationSegment[] | null;
   error: string | null;
 }> {
   try {
-    const srtSegments = parseSrt(srt);
+    const { format, cues: srtSegments } = parseSubtitles(srt);
     if (srtSegments.length === 0) {
       return {
         data: null,
-        error: 'Could not parse SRT content. Please check the format.',
+        error: `Could not parse ${FORMAT_LABELS[format]} content. Please check the format.`,
       };
     }
-    
-    // Simplified: No AI analysis, just assign a default animation
-    const enrichedSegments: AnimationSegment[] = srtSegments.map(srtSeg => {
-      return {
-        ...srtSeg,
-        emotion: 'neutral', // Default emotion
-        animations: ['fadeIn'], // Default animation
-      };
-    });
+
+    const enrichedSegments = await animateCues(srtSegments, options);
 
     return { data: enrichedSegments, error: null };
   } catch (e: any) {
@@ -87,97 +118,394 @@ export async function generateAnimationFromSrtAction(
     const errorMessage = e.message || "An unknown error occurred.";
     return {
       data: null,
-      error: `Failed to process SRT. ${errorMessage}`,
+      error: `Failed to process subtitles. ${errorMessage}`,
     };
   }
 }
 
+export async function transcribeMediaAction(
+  mediaDataUri: string,
+  options: AnimateOptions = {}
+): Promise<{
+  data: { segments: AnimationSegment[]; subtitles: string } | null;
+  error: string | null;
+}> {
+  try {
+    if (!mediaDataUri.startsWith('data:')) {
+      return { data: null, error: 'Invalid media data.' };
+    }
+    const { segments: cues } = await speechToText({ mediaDataUri });
+    if (cues.length === 0) {
+      return { data: null, error: 'No speech was found in the media file.' };
+    }
+
+    const segments = await animateCues(cues, options);
+    // The transcript also fills the subtitle box so it can be edited and
+    // saved like pasted subtitles.
+    return {
+      data: { segments, subtitles: serializeSubtitles(segments, 'srt') },
+      error: null,
+    };
+  } catch (e: any) {
+    console.error(e);
+    const errorMessage = e.message || "An unknown error occurred.";
+    return {
+      data: null,
+      error: `Failed to transcribe media. ${errorMessage}`,
+    };
+  }
+}
 
-export async function renderVideoOnServer(formData: FormData): Promise<{ videoUrl?: string, error?: string }> {
+export async function alignTextToMediaAction(formData: FormData): Promise<{
+  data: { segments: AnimationSegment[]; subtitles: string } | null;
+  error: string | null;
+}> {
   const mediaFile = formData.get('mediaFile') as File | null;
-  const frameDataUrls = formData.getAll('frames') as string[];
-  const duration = parseFloat(formData.get('duration') as string);
-  const frameRate = parseInt(formData.get('frameRate') as string, 10);
-  const isVideo = formData.get('isVideo') === 'true';
+  const text = (formData.get('text') as string | null) ?? '';
+  const analyzerId = formData.get('emotionAnalyzer');
+  const mappingJson = formData.get('emotionMapping') as string | null;
 
-  if (!mediaFile || frameDataUrls.length === 0) {
-    return { error: 'Missing media file or animation frames.' };
+  const parsedAnalyzer = EmotionAnalyzerIdSchema.optional().safeParse(
+    analyzerId ?? undefined
+  );
+  if (!parsedAnalyzer.success) {
+    return { data: null, error: `Unknown emotion analyzer "${analyzerId}".` };
+  }
+  const emotionAnalyzer = parsedAnalyzer.data;
+
+  if (!mediaFile) {
+    return { data: null, error: 'Missing media file.' };
+  }
+  if (parseSubtitles(text).cues.length > 0) {
+    return {
+      data: null,
+      error: 'The text already has timings. Use Analyze & Animate instead.',
+    };
+  }
+  const lines = splitTextLines(text);
+  if (lines.length === 0) {
+    return { data: null, error: 'Please paste the lines to align.' };
   }
 
-  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'aivos-render-'));
-  const outputFilename = `output-${Date.now()}.mp4`;
-  const animationFilename = 'animation.webm';
-  const mediaFilename = mediaFile.name;
-  
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'aivos-align-'));
   try {
-    // 1. Save all frames to temp directory
-    for (let i = 0; i < frameDataUrls.length; i++) {
-      const dataUrl = frameDataUrls[i];
-      const base64Data = dataUrl.replace(/^data:image\/png;base64,/, "");
-      const framePath = path.join(tempDir, `frame-${String(i).padStart(5, '0')}.png`);
-      await fs.writeFile(framePath, base64Data, 'base64');
+    const mediaPath = path.join(tempDir, path.basename(mediaFile.name));
+    await fs.writeFile(mediaPath, Buffer.from(await mediaFile.arrayBuffer()));
+
+    const { duration, silences } = await detectSilences(mediaPath);
+    if (duration <= 0) {
+      return { data: null, error: 'Could not read the media duration.' };
     }
+    // Without any detectable pause the lines are spread over the whole file.
+    const regions = getSpeechRegions(silences, duration);
+    const cues = alignLines(
+      lines,
+      regions.length > 0 ? regions : [{ start: 0, end: duration }]
+    );
 
-    // 2. Save media file
-    const mediaBuffer = Buffer.from(await mediaFile.arrayBuffer());
-    await fs.writeFile(path.join(tempDir, mediaFilename), mediaBuffer);
-    
-    // 3. Create animation video from frames
-    await new Promise<void>((resolve, reject) => {
-        ffmpeg()
-            .input('frame-%05d.png')
-            .inputFPS(frameRate)
-            .videoCodec('libvpx-vp9')
-            .addOption('-pix_fmt', 'yuva420p') // for transparency
-            .duration(duration)
-            .cwd(tempDir) // Set CWD before event handlers and save
-            .on('end', () => resolve())
-            .on('error', (err) => reject(new Error(`FFmpeg error creating animation: ${err.message}`)))
-            .save(animationFilename);
+    const segments = await animateCues(cues, {
+      emotionAnalyzer,
+      emotionMapping: mappingJson ? JSON.parse(mappingJson) : undefined,
     });
+    return {
+      data: { segments, subtitles: serializeSubtitles(segments, 'srt') },
+      error: null,
+    };
+  } catch (e: any) {
+    console.error(e);
+    const errorMessage = e.message || "An unknown error occurred.";
+    return {
+      data: null,
+      error: `Failed to align text. ${errorMessage}`,
+    };
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
 
-    // 4. Combine and render
-    await new Promise<void>((resolve, reject) => {
-        const command = ffmpeg().input(mediaFilename);
-
-        if (isVideo) {
-            command
-                .input(animationFilename)
-                .complexFilter('[0:v]format=yuv420p[bg];[1:v][bg]overlay[v]')
-                .map('[v]')
-                .map('[0:a]?') // use audio from original video if it exists
-                .videoCodec('libx264')
-                .addOption('-pix_fmt', 'yuv420p') // standard mp4 pixel format
-                .outputOptions('-preset', 'fast');
-        } else { // Audio source
-             command
-                .input(animationFilename)
-                .complexFilter('[1:v]format=yuv420p[v]') // convert animation to standard pixel format
-                .map('[v]')
-                .map('[0:a]') // use the audio from the input
-                .videoCodec('libx264')
-                .outputOptions('-preset', 'fast')
-                .shortest(); // end when the shortest input (audio) ends
-        }
-
-        command
-            .cwd(tempDir) // Set CWD before event handlers and save
-            .on('end', () => resolve())
-            .on('error', (err) => reject(new Error(`FFmpeg error combining media: ${err.message}`)))
-            .save(outputFilename);
+export async function exportSubtitlesAction(
+  segments: AnimationSegment[],
+  format: SubtitleFormat,
+  options: SubtitleExportOptions = {}
+): Promise<{
+  data: string | null;
+  error: string | null;
+}> {
+  try {
+    if (!(format in FORMAT_LABELS)) {
+      return { data: null, error: `Unsupported subtitle format: ${format}` };
+    }
+    const parsed = AnimationSegmentSchema.array().safeParse(segments);
+    if (!parsed.success) {
+      return { data: null, error: 'Invalid animation segments.' };
+    }
+    if (parsed.data.length === 0) {
+      return { data: null, error: 'There are no segments to export.' };
+    }
+    const parsedOptions = SubtitleExportOptionsSchema.safeParse(options);
+    if (!parsedOptions.success) {
+      return {
+        data: null,
+        error: `Invalid export options. ${formatZodError(parsedOptions.error)}`,
+      };
+    }
+    return {
+      data: serializeSubtitles(parsed.data, format, parsedOptions.data),
+      error: null,
+    };
+  } catch (e: any) {
+    console.error(e);
+    const errorMessage = e.message || "An unknown error occurred.";
+    return {
+      data: null,
+      error: `Failed to export subtitles. ${errorMessage}`,
+    };
+  }
+}
+
+export async function createRenderSessionAction(formData: FormData): Promise<{
+  data: RenderSession | null;
+  error: string | null;
+}> {
+  const mediaFile = formData.get('mediaFile') as File | null;
+  if (!mediaFile) {
+    return { data: null, error: 'Missing media file.' };
+  }
+  const settings = parseExportSettings(
+    (formData.get('settings') as string | null) ?? ''
+  );
+  if (!settings.data) {
+    return { data: null, error: settings.error };
+  }
+  const aspectRatio = AspectRatioSchema.safeParse(formData.get('aspectRatio'));
+  const fitMode = FitModeSchema.safeParse(formData.get('fitMode'));
+  if (!aspectRatio.success || !fitMode.success) {
+    return { data: null, error: 'Invalid canvas settings.' };
+  }
+  try {
+    const session = await createRenderSession(
+      {
+        frameCount: parseInt(formData.get('frameCount') as string, 10),
+        duration: parseFloat(formData.get('duration') as string),
+        isVideo: formData.get('isVideo') === 'true',
+        aspectRatio: aspectRatio.data,
+        fitMode: fitMode.data,
+        settings: settings.data,
+      },
+      mediaFile
+    );
+    return { data: session, error: null };
+  } catch (e: any) {
+    console.error(e);
+    return { data: null, error: e.message || 'Could not start the render.' };
+  }
+}
+
+export async function getRenderSessionAction(sessionId: string): Promise<{
+  data: RenderSession | null;
+  error: string | null;
+}> {
+  try {
+    return { data: await getRenderSession(sessionId), error: null };
+  } catch (e: any) {
+    return { data: null, error: e.message || 'Render session not found.' };
+  }
+}
+
+// Frames arrive as PNG blobs in small ordered chunks rather than one
+// request, so no single upload has to hold the whole render.
+export async function uploadRenderFramesAction(formData: FormData): Promise<{
+  data: { receivedFrames: number } | null;
+  error: string | null;
+}> {
+  const sessionId = formData.get('sessionId') as string;
+  const startIndex = parseInt(formData.get('startIndex') as string, 10);
+  const frames = formData.getAll('frames') as File[];
+  try {
+    const session = await writeRenderFrames(sessionId, startIndex, frames);
+    return { data: { receivedFrames: session.receivedFrames }, error: null };
+  } catch (e: any) {
+    console.error(e);
+    return { data: null, error: e.message || 'Failed to upload frames.' };
+  }
+}
+
+// Renders run as background jobs: these return the queued job straight
+// away, and clients follow it with getRenderJobAction or the
+// /api/render-jobs/[id]/events stream, then download the finished video.
+export async function finalizeRenderSessionAction(sessionId: string): Promise<{
+  data: RenderJobStatus | null;
+  error: string | null;
+}> {
+  try {
+    const session = await getRenderSession(sessionId);
+    if (session.receivedFrames < session.frameCount) {
+      return {
+        data: null,
+        error: `Only ${session.receivedFrames} of ${session.frameCount} frames were uploaded.`,
+      };
+    }
+    const job = await enqueueRenderJob({
+      task: (options) => renderSessionVideo(session, options),
+      stages: getSessionRenderStages(session.settings),
+      cleanup: () => deleteRenderSession(sessionId),
     });
+    return { data: job, error: null };
+  } catch (e: any) {
+    console.error(e);
+    await deleteRenderSession(sessionId).catch(() => {});
+    return { data: null, error: e.message || 'Could not start the render.' };
+  }
+}
 
-    // 5. Read the final video and return as data URL
-    const videoBuffer = await fs.readFile(path.join(tempDir, outputFilename));
-    const videoBase64 = videoBuffer.toString('base64');
-    
-    return { videoUrl: `data:video/mp4;base64,${videoBase64}` };
+// Renders entirely on the server from the media and a project file, with no
+// frames from the browser, so it also works for batch and scripted renders.
+export async function renderVideoOnServer(formData: FormData): Promise<{
+  data: RenderJobStatus | null;
+  error: string | null;
+}> {
+  const mediaFile = formData.get('mediaFile') as File | null;
+  const projectJson = formData.get('project') as string | null;
 
-  } catch (error: any) {
-    console.error('Server rendering failed:', error);
-    return { error: error.message || 'An unknown error occurred on the server.' };
-  } finally {
-    // 6. Clean up temp directory
-    await fs.rm(tempDir, { recursive: true, force: true });
+  if (!mediaFile || !projectJson) {
+    return { data: null, error: 'Missing media file or project.' };
+  }
+  const { data: project, error } = parseProject(projectJson);
+  if (!project) {
+    return { data: null, error: error ?? 'Invalid project.' };
+  }
+  if (project.segments.length === 0) {
+    return { data: null, error: 'The project has no segments to render.' };
+  }
+  const settings = parseExportSettings(
+    (formData.get('settings') as string | null) ?? ''
+  );
+  if (!settings.data) {
+    return { data: null, error: settings.error };
+  }
+  const exportSettings = settings.data;
+
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'aivos-render-'));
+  const removeWorkDir = () => fs.rm(workDir, { recursive: true, force: true });
+  try {
+    const mediaPath = path.join(workDir, `media${path.extname(mediaFile.name)}`);
+    await fs.writeFile(mediaPath, Buffer.from(await mediaFile.arrayBuffer()));
+
+    const job = await enqueueRenderJob({
+      task: (options) =>
+        renderProjectVideo({
+          project,
+          mediaPath,
+          isVideo: mediaFile.type.startsWith('video/'),
+          workDir,
+          settings: exportSettings,
+          ...options,
+        }),
+      stages: getProjectRenderStages(exportSettings),
+      cleanup: removeWorkDir,
+    });
+    return { data: job, error: null };
+  } catch (e: any) {
+    console.error(e);
+    await removeWorkDir();
+    return { data: null, error: e.message || 'Could not start the render.' };
+  }
+}
+
+export async function getRenderJobAction(jobId: string): Promise<{
+  data: RenderJobStatus | null;
+  error: string | null;
+}> {
+  const job = getRenderJob(jobId);
+  return job
+    ? { data: job, error: null }
+    : { data: null, error: 'Render job not found.' };
+}
+
+export async function cancelRenderJobAction(jobId: string): Promise<{
+  data: RenderJobStatus | null;
+  error: string | null;
+}> {
+  const job = await cancelRenderJob(jobId);
+  return job
+    ? { data: job, error: null }
+    : { data: null, error: 'Render job not found.' };
+}
+
+export async function cancelRenderSessionAction(sessionId: string): Promise<void> {
+  await deleteRenderSession(sessionId).catch(() => {});
+}
+
+export async function listFontsAction(): Promise<{
+  data: UserFont[];
+  error: string | null;
+}> {
+  try {
+    return { data: await listUserFonts(), error: null };
+  } catch (e: any) {
+    console.error(e);
+    return { data: [], error: e.message || 'Could not list fonts.' };
+  }
+}
+
+export async function uploadFontAction(formData: FormData): Promise<{
+  data: UserFont | null;
+  error: string | null;
+}> {
+  const fontFile = formData.get('fontFile') as File | null;
+  if (!fontFile) {
+    return { data: null, error: 'No font file was provided.' };
+  }
+  if (fontFile.size > MAX_FONT_FILE_SIZE) {
+    return { data: null, error: 'Font files must be 10 MB or smaller.' };
+  }
+  try {
+    const font = await saveUserFont(
+      fontFile.name,
+      Buffer.from(await fontFile.arrayBuffer())
+    );
+    return { data: font, error: null };
+  } catch (e: any) {
+    console.error(e);
+    return { data: null, error: e.message || 'Could not save the font.' };
+  }
+}
+
+export async function listPresetsAction(): Promise<{
+  data: StylePreset[];
+  error: string | null;
+}> {
+  try {
+    return { data: await listServerPresets(), error: null };
+  } catch (e: any) {
+    console.error(e);
+    return { data: [], error: e.message || 'Could not list presets.' };
+  }
+}
+
+export async function savePresetAction(preset: StylePreset): Promise<{
+  data: StylePreset | null;
+  error: string | null;
+}> {
+  const parsed = StylePresetSchema.safeParse(preset);
+  if (!parsed.success) {
+    return { data: null, error: `Invalid preset. ${formatZodError(parsed.error)}` };
+  }
+  try {
+    await saveServerPreset(parsed.data);
+    return { data: parsed.data, error: null };
+  } catch (e: any) {
+    console.error(e);
+    return { data: null, error: e.message || 'Could not save the preset.' };
+  }
+}
+
+export async function deletePresetAction(id: string): Promise<{ error: string | null }> {
+  try {
+    await deleteServerPreset(id);
+    return { error: null };
+  } catch (e: any) {
+    console.error(e);
+    return { error: e.message || 'Could not delete the preset.' };
   }
 }
@@ -0,0 +1,29 @@
+import path from 'path';
+
+import { readUserFont } from '@/lib/font-store';
+
+export const dynamic = 'force-dynamic';
+
+const FONT_MIME_TYPES: Record<string, string> = {
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+};
+
+// Serves uploaded fonts to the preview; bundled ones are static files.
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const { name } = await params;
+  const data = await readUserFont(name);
+  if (!data) {
+    return new Response('Font not found.', { status: 404 });
+  }
+  return new Response(new Uint8Array(data), {
+    headers: {
+      'Content-Type':
+        FONT_MIME_TYPES[path.extname(name).toLowerCase()] ?? 'application/octet-stream',
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
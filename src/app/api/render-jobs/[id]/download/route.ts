@@ -0,0 +1,34 @@
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+
+import { EXPORT_MIME_TYPES } from '@/lib/render/export-settings';
+import { getRenderJobOutput } from '@/lib/render/jobs';
+
+export const dynamic = 'force-dynamic';
+
+// Streams a finished render from disk rather than through a server action,
+// so large videos never have to be held in memory.
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const outputPath = getRenderJobOutput(id);
+  const stats = outputPath && (await fs.stat(outputPath).catch(() => null));
+  if (!outputPath || !stats) {
+    return new Response('Rendered video not found.', { status: 404 });
+  }
+  const extension = path.extname(outputPath).slice(1);
+
+  return new Response(
+    Readable.toWeb(createReadStream(outputPath)) as ReadableStream<Uint8Array>,
+    {
+      headers: {
+        'Content-Type': EXPORT_MIME_TYPES[extension] ?? 'application/octet-stream',
+        'Content-Length': String(stats.size),
+        'Content-Disposition': `attachment; filename="animated-video.${extension}"`,
+      },
+    }
+  );
+}
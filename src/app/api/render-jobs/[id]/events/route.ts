@@ -0,0 +1,50 @@
+import { getRenderJob, subscribeToRenderJob } from '@/lib/render/jobs';
+import { isFinishedJobState, type RenderJobStatus } from '@/lib/render/job-status';
+
+export const dynamic = 'force-dynamic';
+
+// Streams a render job's status as server-sent events until it finishes.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const job = getRenderJob(id);
+  if (!job) {
+    return new Response('Render job not found.', { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let unsubscribe = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        controller.close();
+      };
+      const send = (status: RenderJobStatus) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(status)}\n\n`));
+        if (isFinishedJobState(status.state)) close();
+      };
+
+      unsubscribe = subscribeToRenderJob(id, send);
+      request.signal.addEventListener('abort', close);
+      send(job);
+    },
+    cancel() {
+      unsubscribe();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -1,18 +1,49 @@
 'use client';
 
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import {
+  AudioWaveform,
   Loader2,
   FileAudio,
   FileVideo,
   Sparkles,
   DownloadCloud,
+  FilePlus,
+  FolderOpen,
+  Mic,
+  Save,
+  Undo2,
+  Redo2,
+  Palette,
+  SlidersHorizontal,
+  WrapText,
 } from 'lucide-react';
 import dynamic from 'next/dynamic';
 
-import { generateAnimationFromSrtAction } from '@/app/actions';
-import type { AnimationSegment } from '@/app/types';
+import {
+  alignTextToMediaAction,
+  generateAnimationFromSrtAction,
+  listFontsAction,
+  listPresetsAction,
+  transcribeMediaAction,
+  uploadFontAction,
+} from '@/app/actions';
+import type {
+  AnimationSegment,
+  AspectRatio,
+  EmotionAnalyzerId,
+  EmotionMapping,
+  FitMode,
+  Project,
+  SegmentStyle,
+  StylePreset,
+} from '@/app/types';
+import { CaptionStyleEditor } from '@/components/caption-style-editor';
+import { EmotionMappingEditor } from '@/components/emotion-mapping-editor';
 import { Logo } from '@/components/icons';
+import { formatCueNumbers, LineLayoutDialog } from '@/components/line-layout-dialog';
+import { PresetManager } from '@/components/preset-manager';
+import { SegmentInspector } from '@/components/segment-inspector';
 import { Button } from '@/components/ui/button';
 import {
   Card,
@@ -22,10 +53,46 @@ import {
   CardTitle,
 } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { useHistory } from '@/hooks/use-history';
 import { useToast } from '@/hooks/use-toast';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { ThemeToggle } from '@/components/theme-toggle';
+import {
+  PROJECT_FILE_EXTENSION,
+  clearProjectDraft,
+  createProject,
+  getProjectFileName,
+  loadProjectDraft,
+  parseProject,
+  saveProjectDraft,
+  serializeProject,
+} from '@/lib/project';
+import type { HistoryCommand } from '@/lib/history';
+import type { LineLayoutResult } from '@/lib/line-layout';
+import { resolveCaptionStyle } from '@/lib/caption-style';
+import { DEFAULT_EMOTION_MAPPING } from '@/lib/emotions';
+import { registerUserFonts, type UserFont } from '@/lib/fonts';
+import {
+  applyPresetToSegment,
+  getDefaultPresetId,
+  getPresetEmotionMapping,
+  getSharedPosition,
+  loadLocalPresets,
+  type PresetStyleMode,
+} from '@/lib/presets';
+
+const EMOTION_ANALYZER_LABELS: Record<EmotionAnalyzerId, string> = {
+  genkit: 'Gemini (cloud)',
+  'rule-based': 'Rule-based (offline)',
+};
 
 const AnimationPreview = dynamic(
   () =>
@@ -55,13 +122,307 @@ export default function Home() {
   const [file, setFile] = useState<File | null>(null);
   const [fileDataUrl, setFileDataUrl] = useState<string | null>(null);
 
-  const [animationData, setAnimationData] = useState<AnimationSegment[] | null>(
-    null
-  );
+  // Every segment edit goes through the history so it can be undone.
+  const {
+    present: animationData,
+    execute: updateAnimationData,
+    reset: resetAnimationData,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
+  } = useHistory<AnimationSegment[] | null>(null);
   const [isGeneratingAnimation, setIsGeneratingAnimation] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [isAligning, setIsAligning] = useState(false);
+  const isBusy = isGeneratingAnimation || isTranscribing || isAligning;
+  const [selectedSegmentIndex, setSelectedSegmentIndex] = useState<
+    number | null
+  >(null);
+  const [isInspectorOpen, setIsInspectorOpen] = useState(false);
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>('16:9');
+  const [fitMode, setFitMode] = useState<FitMode>('fit');
+  const [captionStyle, setCaptionStyle] = useState<SegmentStyle>({});
+  const [fonts, setFonts] = useState<UserFont[]>([]);
+  const [isPresetManagerOpen, setIsPresetManagerOpen] = useState(false);
+  const [emotionAnalyzer, setEmotionAnalyzer] =
+    useState<EmotionAnalyzerId>('genkit');
+  const [emotionMapping, setEmotionMapping] =
+    useState<EmotionMapping>(DEFAULT_EMOTION_MAPPING);
+  const [isEmotionMappingOpen, setIsEmotionMappingOpen] = useState(false);
+  const [isLineLayoutOpen, setIsLineLayoutOpen] = useState(false);
+  const [projectName, setProjectName] = useState('Untitled project');
+  const [projectCreatedAt, setProjectCreatedAt] = useState(() =>
+    new Date().toISOString()
+  );
+  // Media from a loaded project that has not been re-selected yet.
+  const [projectMedia, setProjectMedia] = useState<Project['media']>(null);
 
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const draftRestoredRef = useRef(false);
+  // Counts applied projects, so late async results can tell they are stale.
+  const projectGenerationRef = useRef(0);
+
+  const buildProject = (): Project =>
+    createProject({
+      name: projectName,
+      createdAt: projectCreatedAt,
+      media: file ? { name: file.name, type: file.type } : projectMedia,
+      subtitles: srt,
+      aspectRatio,
+      fitMode,
+      style: captionStyle,
+      emotionAnalyzer,
+      emotionMapping,
+      segments: animationData ?? [],
+    });
+
+  const applyProject = (project: Project) => {
+    projectGenerationRef.current++;
+    setProjectName(project.name);
+    setProjectCreatedAt(project.createdAt);
+    setSrt(project.subtitles);
+    setAspectRatio(project.aspectRatio);
+    setFitMode(project.fitMode);
+    setCaptionStyle(project.style);
+    setEmotionAnalyzer(project.emotionAnalyzer);
+    setEmotionMapping(project.emotionMapping);
+    resetAnimationData(project.segments.length > 0 ? project.segments : null);
+    setSelectedSegmentIndex(null);
+    setProjectMedia(project.media);
+    if (project.media && project.media.name !== file?.name) {
+      setFile(null);
+      setFileDataUrl(null);
+    }
+  };
+
+  // New projects start with the whole look of the preset starred as
+  // default: its style, and its animations and positions per emotion
+  // through the emotion mapping.
+  const getPresetProjectSettings = (preset: StylePreset) => ({
+    style: preset.style,
+    emotionMapping: getPresetEmotionMapping(preset, DEFAULT_EMOTION_MAPPING),
+  });
+
+  // A local default preset applies at once. A server one applies once
+  // listed, unless another project was started or loaded in the meantime.
+  const startNewProject = async () => {
+    clearProjectDraft();
+    setFile(null);
+    setFileDataUrl(null);
+    const id = getDefaultPresetId();
+    const localPreset = id ? loadLocalPresets().find((p) => p.id === id) : undefined;
+    applyProject(createProject(localPreset ? getPresetProjectSettings(localPreset) : {}));
+    if (!id || localPreset) return;
+
+    const generation = projectGenerationRef.current;
+    try {
+      const { data, error } = await listPresetsAction();
+      if (error) throw new Error(error);
+      const preset = data.find((p) => p.id === id);
+      if (!preset || generation !== projectGenerationRef.current) return;
+      const { style, emotionMapping } = getPresetProjectSettings(preset);
+      setCaptionStyle(style);
+      setEmotionMapping(emotionMapping);
+    } catch (e: any) {
+      toast({
+        title: 'Default Preset Not Applied',
+        description: `The new project uses the default style. ${e.message || 'Could not list presets.'}`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleNewProject = () => {
+    if (
+      (srt || animationData) &&
+      !window.confirm('Start a new project? Unsaved changes to this one are lost.')
+    ) {
+      return;
+    }
+    startNewProject();
+  };
+
+  useEffect(() => {
+    const draft = loadProjectDraft();
+    draftRestoredRef.current = true;
+    if (!draft) {
+      startNewProject();
+      return;
+    }
+    applyProject(draft);
+    if (draft.media) {
+      toast({
+        title: 'Project Restored',
+        description: `Select "${draft.media.name}" again to preview with media.`,
+      });
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!draftRestoredRef.current) return;
+    saveProjectDraft(buildProject());
+  }, [
+    srt,
+    file,
+    animationData,
+    aspectRatio,
+    fitMode,
+    captionStyle,
+    emotionAnalyzer,
+    emotionMapping,
+    projectName,
+    projectMedia,
+  ]);
+
+  useEffect(() => {
+    listFontsAction().then(({ data }) => setFonts(data));
+  }, []);
+
+  useEffect(() => {
+    registerUserFonts(fonts);
+  }, [fonts]);
+
+  const handleUploadFont = async (fontFile: File): Promise<UserFont | null> => {
+    const formData = new FormData();
+    formData.append('fontFile', fontFile);
+    const result = await uploadFontAction(formData);
+    if (!result.data) {
+      toast({
+        title: 'Could Not Upload Font',
+        description: result.error || 'The font could not be saved.',
+        variant: 'destructive',
+      });
+      return null;
+    }
+    const font = result.data;
+    setFonts((current) => [
+      ...current.filter((f) => f.fileName !== font.fileName),
+      font,
+    ]);
+    toast({ title: 'Font Uploaded', description: font.family });
+    return font;
+  };
+
+  const selectedSegment =
+    selectedSegmentIndex !== null
+      ? animationData?.[selectedSegmentIndex] ?? null
+      : null;
+
+  const handleEditSegment = (index: number) => {
+    setSelectedSegmentIndex(index);
+    setIsInspectorOpen(true);
+  };
+
+  // Undo/redo can remove the selected segment, e.g. when undoing a split.
+  useEffect(() => {
+    if (
+      selectedSegmentIndex !== null &&
+      selectedSegmentIndex >= (animationData?.length ?? 0)
+    ) {
+      setSelectedSegmentIndex(null);
+    }
+  }, [animationData, selectedSegmentIndex]);
+
+  const handleSegmentChange = (
+    segment: AnimationSegment,
+    command: HistoryCommand
+  ) => {
+    if (!animationData || selectedSegmentIndex === null) return;
+    updateAnimationData(
+      animationData.map((s, i) => (i === selectedSegmentIndex ? segment : s)),
+      command
+    );
+  };
+
+  // Only the segments are in the undo history; the project's style and
+  // emotion mapping are replaced for good, which the toast says.
+  const handleApplyPresetToProject = (preset: StylePreset, style: PresetStyleMode) => {
+    setCaptionStyle(preset.style);
+    setEmotionMapping((mapping) => getPresetEmotionMapping(preset, mapping));
+    if (animationData) {
+      updateAnimationData(
+        animationData.map((segment) => applyPresetToSegment(segment, preset, { style })),
+        { label: 'Apply preset' }
+      );
+    }
+    toast({
+      title: 'Preset Applied',
+      description: `${preset.name}. Undo restores the segments, but not the project style or emotion mapping.`,
+    });
+  };
+
+  const handleApplyPresetToSegment = (preset: StylePreset) => {
+    if (!selectedSegment) return;
+    handleSegmentChange(
+      applyPresetToSegment(selectedSegment, preset, { style: 'replace' }),
+      { label: 'Apply preset' }
+    );
+    toast({ title: 'Preset Applied', description: preset.name });
+  };
+
+  const handleApplyLineLayout = ({ segments, changes, overflowing }: LineLayoutResult) => {
+    // Paging shifts the indexes of everything after a paged cue.
+    setSelectedSegmentIndex(null);
+    updateAnimationData(segments, { label: 'Fit line breaks' });
+    setIsLineLayoutOpen(false);
+    const paged = changes.filter((change) => change.pages > 1);
+    toast({
+      title: 'Line Breaks Applied',
+      description: [
+        `Changed captions ${formatCueNumbers(changes.map((change) => change.index))}.`,
+        paged.length > 0 &&
+          `Captions ${formatCueNumbers(paged.map((change) => change.index))} were split into ${paged.reduce((sum, change) => sum + change.pages, 0)} captions.`,
+        overflowing.length > 0 &&
+          `Captions ${formatCueNumbers(overflowing)} still have too many lines.`,
+      ]
+        .filter(Boolean)
+        .join(' '),
+    });
+  };
+
+  const handleSaveProject = () => {
+    const project = buildProject();
+    const blob = new Blob([serializeProject(project)], {
+      type: 'application/json',
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = getProjectFileName(project);
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0];
+    e.target.value = '';
+    if (!selectedFile) return;
+
+    const result = parseProject(await selectedFile.text());
+    if (result.error || !result.data) {
+      toast({
+        title: 'Could Not Open Project',
+        description: result.error || 'The project file could not be read.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    applyProject(result.data);
+    toast({
+      title: 'Project Opened',
+      description: result.data.media
+        ? `Select "${result.data.media.name}" to preview with media.`
+        : result.data.name,
+    });
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
@@ -78,7 +439,12 @@ export default function Home() {
         return;
       }
       setFile(selectedFile);
-      setAnimationData(null);
+      // Keep a loaded project's segments when its media is re-selected.
+      if (selectedFile.name !== projectMedia?.name) {
+        resetAnimationData(null);
+        setSelectedSegmentIndex(null);
+      }
+      setProjectMedia(null);
       const reader = new FileReader();
       reader.onload = (event) => {
         setFileDataUrl(event.target?.result as string);
@@ -87,12 +453,64 @@ export default function Home() {
     }
   };
 
+  const handleTranscribe = async () => {
+    if (!fileDataUrl) return;
+    setIsTranscribing(true);
+    setSelectedSegmentIndex(null);
+
+    const result = await transcribeMediaAction(fileDataUrl, {
+      emotionAnalyzer,
+      emotionMapping,
+    });
+
+    if (result?.error) {
+      toast({
+        title: 'Error Transcribing Media',
+        description: result.error,
+        variant: 'destructive',
+      });
+    } else if (result?.data) {
+      setSrt(result.data.subtitles);
+      updateAnimationData(result.data.segments, { label: 'Transcribe media' });
+    }
+
+    setIsTranscribing(false);
+  };
+
+  // Times plain pasted lines against pauses in the media, without a cloud
+  // transcription.
+  const handleAlignText = async () => {
+    if (!file || !srt) return;
+    setIsAligning(true);
+    setSelectedSegmentIndex(null);
+
+    const formData = new FormData();
+    formData.append('mediaFile', file);
+    formData.append('text', srt);
+    formData.append('emotionAnalyzer', emotionAnalyzer);
+    formData.append('emotionMapping', JSON.stringify(emotionMapping));
+    const result = await alignTextToMediaAction(formData);
+
+    if (result?.error) {
+      toast({
+        title: 'Error Aligning Text',
+        description: result.error,
+        variant: 'destructive',
+      });
+    } else if (result?.data) {
+      setSrt(result.data.subtitles);
+      updateAnimationData(result.data.segments, { label: 'Align text' });
+    }
+
+    setIsAligning(false);
+  };
+
   const handleGenerateAnimation = async () => {
     if (!srt) {
       toast({
         title: 'Error',
         description:
-          'Please paste SRT content before animating.',
+          'Please paste SRT, WebVTT or ASS content before animating.',
         variant: 'destructive',
       });
       return;
@@ -107,9 +525,12 @@ export default function Home() {
       return;
     }
     setIsGeneratingAnimation(true);
-    setAnimationData(null);
+    setSelectedSegmentIndex(null);
 
-    const result = await generateAnimationFromSrtAction(srt);
+    const result = await generateAnimationFromSrtAction(srt, {
+      emotionAnalyzer,
+      emotionMapping,
+    });
 
     if (result?.error) {
       toast({
@@ -118,7 +539,7 @@ export default function Home() {
         variant: 'destructive',
       });
     } else if (result?.data) {
-      setAnimationData(result.data);
+      updateAnimationData(result.data, { label: 'Generate animations' });
     }
 
     setIsGeneratingAnimation(false);
@@ -139,7 +560,57 @@ export default function Home() {
             </p>
           </div>
         </div>
-        <ThemeToggle />
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={undo}
+            disabled={!canUndo}
+            title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Undo (Ctrl+Z)'}
+          >
+            <Undo2 className="h-4 w-4" />
+            <span className="sr-only">Undo</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={redo}
+            disabled={!canRedo}
+            title={
+              redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Redo (Ctrl+Shift+Z)'
+            }
+          >
+            <Redo2 className="h-4 w-4" />
+            <span className="sr-only">Redo</span>
+          </Button>
+          <Button variant="outline" onClick={handleNewProject}>
+            <FilePlus className="mr-2 h-4 w-4" />
+            New
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => projectInputRef.current?.click()}
+          >
+            <FolderOpen className="mr-2 h-4 w-4" />
+            Open
+          </Button>
+          <Input
+            ref={projectInputRef}
+            type="file"
+            className="sr-only"
+            accept={`${PROJECT_FILE_EXTENSION},application/json`}
+            onChange={handleOpenProject}
+          />
+          <Button
+            variant="outline"
+            onClick={handleSaveProject}
+            disabled={!srt && !animationData}
+          >
+            <Save className="mr-2 h-4 w-4" />
+            Save
+          </Button>
+          <ThemeToggle />
+        </div>
       </header>
 
       <div className="grid gap-8 md:grid-cols-2">
@@ -150,10 +621,19 @@ export default function Home() {
                 <DownloadCloud className="h-5 w-5" /> 1. Upload & Paste
               </CardTitle>
               <CardDescription>
-                Upload your media file for the preview, and paste the corresponding SRT content.
+                Upload your media file for the preview, and paste the corresponding SRT, WebVTT or ASS content.
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
+              <div>
+                <Label htmlFor="project-name">Project Name</Label>
+                <Input
+                  id="project-name"
+                  value={projectName}
+                  onChange={(e) => setProjectName(e.target.value)}
+                  className="mt-2"
+                />
+              </div>
               <div className="flex min-h-[100px] flex-col items-center justify-center gap-4 rounded-lg border-2 border-dashed border-muted p-4">
                 <Label
                   htmlFor="file-upload"
@@ -171,6 +651,12 @@ export default function Home() {
                         Click to change file
                       </span>
                     </div>
+                  ) : projectMedia ? (
+                    <div className="flex flex-col items-center gap-2 text-muted-foreground">
+                      <FileAudio className="h-10 w-10" />
+                      <p>Click to select {projectMedia.name}</p>
+                      <p className="text-xs">Media is not stored in the project file</p>
+                    </div>
                   ) : (
                     <div className="flex flex-col items-center gap-2 text-muted-foreground">
                       <FileAudio className="h-10 w-10" />
@@ -187,24 +673,90 @@ export default function Home() {
                   accept="audio/*,video/*"
                   onChange={handleFileChange}
                 />
+                {file && (
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={handleTranscribe}
+                    disabled={!fileDataUrl || isBusy}
+                  >
+                    {isTranscribing ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Mic className="mr-2 h-4 w-4" />
+                    )}
+                    Transcribe media
+                  </Button>
+                )}
               </div>
 
 
               <div>
                 <Label htmlFor="srt-input" >
-                  Paste SRT Content
+                  Paste Subtitles (SRT, WebVTT or ASS) or Plain Lines
                 </Label>
                 <Textarea
                   id="srt-input"
                   value={srt}
                   onChange={(e) => setSrt(e.target.value)}
                   className="min-h-[250px] font-mono text-sm mt-2"
-                  placeholder="1\n00:00:01,234 --> 00:00:05,678\nHello world..."
+                  placeholder={"1\n00:00:01,234 --> 00:00:05,678\nHello world...\n\nor\n\nWEBVTT\n\n00:01.234 --> 00:05.678\nHello world..."}
                 />
+                <div className="mt-2 flex items-center justify-between gap-4">
+                  <p className="text-xs text-muted-foreground">
+                    No timings? Paste one line per subtitle and align them to
+                    the pauses in your media.
+                  </p>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={handleAlignText}
+                    disabled={!srt || !file || isBusy}
+                  >
+                    {isAligning ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <AudioWaveform className="mr-2 h-4 w-4" />
+                    )}
+                    Align to Media
+                  </Button>
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="emotion-analyzer">Emotion Analysis</Label>
+                <div className="mt-2 flex gap-2">
+                  <Select
+                    value={emotionAnalyzer}
+                    onValueChange={(value: EmotionAnalyzerId) =>
+                      setEmotionAnalyzer(value)
+                    }
+                  >
+                    <SelectTrigger id="emotion-analyzer">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(EMOTION_ANALYZER_LABELS).map(
+                        ([id, label]) => (
+                          <SelectItem key={id} value={id}>
+                            {label}
+                          </SelectItem>
+                        )
+                      )}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    className="shrink-0"
+                    onClick={() => setIsEmotionMappingOpen(true)}
+                  >
+                    <SlidersHorizontal className="mr-2 h-4 w-4" />
+                    Mapping
+                  </Button>
+                </div>
               </div>
                  <Button
                 onClick={handleGenerateAnimation}
-                disabled={!srt || !file || isGeneratingAnimation}
+                disabled={!srt || !file || isBusy}
                 size="lg"
               >
                 {isGeneratingAnimation ? (
@@ -216,18 +768,118 @@ export default function Home() {
               </Button>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1.5">
+                  <CardTitle className="font-headline">Caption Style</CardTitle>
+                  <CardDescription>
+                    The look of every caption. Segments can override it in
+                    the segment editor.
+                  </CardDescription>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setIsLineLayoutOpen(true)}
+                    disabled={!animationData?.length}
+                  >
+                    <WrapText className="mr-2 h-4 w-4" />
+                    Line Breaks
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setIsPresetManagerOpen(true)}
+                  >
+                    <Palette className="mr-2 h-4 w-4" />
+                    Presets
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setCaptionStyle({})}
+                    disabled={Object.keys(captionStyle).length === 0}
+                  >
+                    Reset
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <CaptionStyleEditor
+                style={captionStyle}
+                inherited={resolveCaptionStyle()}
+                onChange={(style) => setCaptionStyle(style)}
+                fonts={fonts}
+                onUploadFont={handleUploadFont}
+                idPrefix="project-style"
+              />
+            </CardContent>
+          </Card>
         </div>
 
         <div className="sticky top-8">
           <AnimationPreview
             key={`${file?.name}`}
             data={animationData}
-            isGeneratingAnimation={isGeneratingAnimation}
+            isGeneratingAnimation={isBusy}
             mediaFile={file}
             mediaUrl={fileDataUrl}
             mediaType={file?.type}
+            aspectRatio={aspectRatio}
+            onAspectRatioChange={setAspectRatio}
+            fitMode={fitMode}
+            onFitModeChange={setFitMode}
+            captionStyle={captionStyle}
+            onDataChange={updateAnimationData}
+            selectedSegmentIndex={selectedSegmentIndex}
+            onSelectSegment={setSelectedSegmentIndex}
+            onEditSegment={handleEditSegment}
           />
         </div>
+        <PresetManager
+          open={isPresetManagerOpen}
+          onOpenChange={setIsPresetManagerOpen}
+          captionStyle={captionStyle}
+          position={
+            selectedSegment?.position ?? getSharedPosition(animationData ?? [])
+          }
+          segments={animationData ?? []}
+          canApplyToSegment={selectedSegment !== null}
+          onApplyToProject={handleApplyPresetToProject}
+          onApplyToSegment={handleApplyPresetToSegment}
+        />
+        <LineLayoutDialog
+          open={isLineLayoutOpen}
+          onOpenChange={setIsLineLayoutOpen}
+          segments={animationData ?? []}
+          aspectRatio={aspectRatio}
+          captionStyle={captionStyle}
+          onApply={handleApplyLineLayout}
+        />
+        <EmotionMappingEditor
+          open={isEmotionMappingOpen}
+          onOpenChange={setIsEmotionMappingOpen}
+          mapping={emotionMapping}
+          onChange={setEmotionMapping}
+          baseStyle={captionStyle}
+          fonts={fonts}
+          onUploadFont={handleUploadFont}
+        />
+        <SegmentInspector
+          open={isInspectorOpen && selectedSegment !== null}
+          onOpenChange={setIsInspectorOpen}
+          segment={selectedSegment}
+          segmentIndex={selectedSegmentIndex}
+          onChange={handleSegmentChange}
+          baseStyle={captionStyle}
+          fonts={fonts}
+          onUploadFont={handleUploadFont}
+          emotions={emotionMapping.map((rule) => rule.emotion)}
+        />
       </div>
     </main>
   );
@@ -1,11 +1,230 @@
 import { z } from 'zod';
 
+export const TimedTextSchema = z.object({
+  text: z.string(),
+  startTime: z.number(),
+  endTime: z.number(),
+});
+
+export type TimedText = z.infer<typeof TimedTextSchema>;
+
+export const TextShadowSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  blur: z.number().min(0),
+  color: z.string(),
+});
+
+export type TextShadow = z.infer<typeof TextShadowSchema>;
+
+export const CaptionBackgroundSchema = z.object({
+  color: z.string(),
+  paddingX: z.number().min(0),
+  paddingY: z.number().min(0),
+  radius: z.number().min(0),
+});
+
+export type CaptionBackground = z.infer<typeof CaptionBackgroundSchema>;
+
+// Lengths (font size, outline, shadows, padding) are pixels on a canvas
+// whose shorter side is 1080px, so captions scale with the output.
+export const SegmentStyleSchema = z.object({
+  fontFamily: z.string().optional(),
+  fontSize: z.number().positive().optional(),
+  fontWeight: z.number().int().min(100).max(900).optional(),
+  color: z.string().optional(),
+  // A fill gradient replaces `color` for the text itself. Null turns off an
+  // inherited gradient, as it does an inherited background.
+  gradient: z
+    .object({ from: z.string(), to: z.string(), angle: z.number() })
+    .nullable()
+    .optional(),
+  karaokeColor: z.string().optional(),
+  outlineColor: z.string().optional(),
+  outlineWidth: z.number().min(0).optional(),
+  shadows: z.array(TextShadowSchema).optional(),
+  background: CaptionBackgroundSchema.nullable().optional(),
+  /** In em. */
+  letterSpacing: z.number().optional(),
+  /** A multiple of the font size. */
+  lineHeight: z.number().positive().optional(),
+  bold: z.boolean().optional(),
+  italic: z.boolean().optional(),
+});
+
+export type SegmentStyle = z.infer<typeof SegmentStyleSchema>;
+
+export const CaptionAnchorSchema = z.enum(['top', 'middle', 'bottom']);
+
+export type CaptionAnchor = z.infer<typeof CaptionAnchorSchema>;
+
+// Named columns of the canvas (see lib/layout.ts), e.g. one per speaker.
+export const LayoutRegionSchema = z.enum(['full', 'left', 'right']);
+
+export type LayoutRegion = z.infer<typeof LayoutRegionSchema>;
+
+export const SegmentPositionSchema = z.object({
+  region: LayoutRegionSchema.optional(),
+  anchor: CaptionAnchorSchema.optional(),
+  // Centre of the caption in percent of the canvas. When set, it replaces
+  // the region's anchor placement.
+  x: z.number().min(0).max(100).optional(),
+  y: z.number().min(0).max(100).optional(),
+  /** Percent of the region's width the text wraps at. */
+  maxWidth: z.number().min(10).max(100).optional(),
+  /** Degrees, clockwise. */
+  rotation: z.number().min(-180).max(180).optional(),
+});
+
+export type SegmentPosition = z.infer<typeof SegmentPositionSchema>;
+
+// What a segment gets once its emotion is known: the animations, in order,
+// replace the analyzer's suggestions, and the style and position apply
+// where the segment has none of its own. Labels are free-form, so custom
+// emotions can be added.
+export const EmotionRuleSchema = z.object({
+  emotion: z.string().trim().toLowerCase().min(1, 'Emotion labels cannot be empty.'),
+  animations: z.array(z.string()),
+  style: SegmentStyleSchema.optional(),
+  position: SegmentPositionSchema.optional(),
+});
+
+export type EmotionRule = z.infer<typeof EmotionRuleSchema>;
+
+export const EmotionMappingSchema = z
+  .array(EmotionRuleSchema)
+  .refine(
+    (rules) => new Set(rules.map((rule) => rule.emotion)).size === rules.length,
+    'Each emotion can only be mapped once.'
+  );
+
+export type EmotionMapping = z.infer<typeof EmotionMappingSchema>;
+
+// A reusable caption look, e.g. one channel's brand kit. `emotions` maps an
+// emotion label to the animations (and optionally position) it gets.
+export const StylePresetSchema = z.object({
+  id: z.string().regex(/^[\w-]{1,64}$/, 'Invalid preset id.'),
+  name: z.string().trim().min(1, 'Presets need a name.').max(80),
+  style: SegmentStyleSchema,
+  position: SegmentPositionSchema,
+  emotions: z.record(
+    z.string(),
+    z.object({
+      animations: z.array(z.string()),
+      position: SegmentPositionSchema.optional(),
+    })
+  ),
+  updatedAt: z.string(),
+});
+
+export type StylePreset = z.infer<typeof StylePresetSchema>;
+
 export const AnimationSegmentSchema = z.object({
   text: z.string(),
   emotion: z.string(),
   animations: z.array(z.string()),
   startTime: z.number(),
   endTime: z.number(),
+  // Optional speech timings, e.g. from transcription or ASS \k tags.
+  words: z.array(TimedTextSchema).optional(),
+  syllables: z.array(TimedTextSchema).optional(),
+  style: SegmentStyleSchema.optional(),
+  position: SegmentPositionSchema.optional(),
+  // Parameter overrides per animation id, e.g. { fadeIn: { duration: 2 } }.
+  animationParams: z.record(z.string(), z.record(z.string(), z.number())).optional(),
 });
 
 export type AnimationSegment = z.infer<typeof AnimationSegmentSchema>;
+
+export type SubtitleCue = Omit<AnimationSegment, 'emotion' | 'animations'> &
+  Partial<Pick<AnimationSegment, 'animations'>>;
+
+// Any "W:H" ratio of whole numbers, e.g. '16:9', '4:5' or '21:9'.
+export const AspectRatioSchema = z
+  .string()
+  .regex(/^[1-9]\d{0,3}:[1-9]\d{0,3}$/, 'Aspect ratio must look like 16:9.');
+
+export type AspectRatio = z.infer<typeof AspectRatioSchema>;
+
+// How source video is placed on a canvas of a different shape: 'fit' adds
+// bars on whichever sides need them, 'letterbox' keeps the full width,
+// 'pillarbox' the full height, and 'crop' fills the canvas.
+export const FitModeSchema = z.enum(['fit', 'letterbox', 'pillarbox', 'crop']);
+
+export type FitMode = z.infer<typeof FitModeSchema>;
+
+export const EmotionAnalyzerIdSchema = z.enum(['genkit', 'rule-based']);
+
+export type EmotionAnalyzerId = z.infer<typeof EmotionAnalyzerIdSchema>;
+
+export const ExportResolutionSchema = z.enum(['720p', '1080p', '2160p']);
+
+export type ExportResolution = z.infer<typeof ExportResolutionSchema>;
+
+export const VideoCodecSchema = z.enum(['h264', 'h265', 'vp9', 'prores']);
+
+export type VideoCodec = z.infer<typeof VideoCodecSchema>;
+
+export const VideoContainerSchema = z.enum(['mp4', 'mov', 'webm']);
+
+export type VideoContainer = z.infer<typeof VideoContainerSchema>;
+
+// 'overlay' is the text layer alone with an alpha channel, and
+// 'png-sequence' the same as a ZIP of transparent PNG frames.
+export const ExportOutputSchema = z.enum(['composite', 'overlay', 'png-sequence']);
+
+export type ExportOutput = z.infer<typeof ExportOutputSchema>;
+
+export const ExportSettingsSchema = z.object({
+  output: ExportOutputSchema,
+  resolution: ExportResolutionSchema,
+  frameRate: z.union([
+    z.literal(24),
+    z.literal(25),
+    z.literal(30),
+    z.literal(50),
+    z.literal(60),
+  ]),
+  codec: VideoCodecSchema,
+  container: VideoContainerSchema,
+  // Constant quality (CRF) or a target bitrate in kbit/s. ProRes uses
+  // neither: its quality is set by the profile.
+  rateControl: z.enum(['crf', 'bitrate']),
+  // The highest any codec takes (VP9); getExportSettingsError checks the
+  // limit of the chosen codec.
+  crf: z.number().int().min(0).max(63),
+  bitrate: z
+    .number()
+    .int()
+    .min(100, 'Bitrate must be between 100 and 200000 kbit/s.')
+    .max(200_000, 'Bitrate must be between 100 and 200000 kbit/s.'),
+});
+
+export type ExportSettings = z.infer<typeof ExportSettingsSchema>;
+
+export const PROJECT_VERSION = 4;
+
+export const ProjectMediaSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+});
+
+export type ProjectMedia = z.infer<typeof ProjectMediaSchema>;
+
+export const ProjectSchema = z.object({
+  version: z.literal(PROJECT_VERSION),
+  name: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  // Media files are not embedded; only enough to ask for the same file again.
+  media: ProjectMediaSchema.nullable(),
+  subtitles: z.string(),
+  aspectRatio: AspectRatioSchema,
+  fitMode: FitModeSchema,
+  style: SegmentStyleSchema,
+  emotionAnalyzer: EmotionAnalyzerIdSchema,
+  emotionMapping: EmotionMappingSchema,
+  segments: z.array(AnimationSegmentSchema),
+});
+
+export type Project = z.infer<typeof ProjectSchema>;
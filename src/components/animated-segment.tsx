@@ -0,0 +1,123 @@
+'use client';
+
+import type { AnimationSegment, SegmentStyle } from '@/app/types';
+import {
+  buildAnimationStyle,
+  getAnimationDefinitions,
+  getSplitAnimation,
+  getTimedAnimation,
+} from '@/lib/animations';
+import { getCaptionCss, resolveCaptionStyle } from '@/lib/caption-style';
+import { getTimedUnits } from '@/lib/timing';
+import { cn } from '@/lib/utils';
+
+interface AnimatedSegmentProps {
+  segment: AnimationSegment;
+  /**
+   * Timeline time, in seconds, the animations start from when mounted. Remount
+   * the segment to move it: the delays of running animations are not re-seeked.
+   */
+  time?: number;
+  /** Holds the animations at `time` instead of playing on from it. */
+  paused?: boolean;
+  /** The project's style, under the segment's own. */
+  baseStyle?: SegmentStyle;
+}
+
+const splitText = (text: string, category: 'word' | 'letter') =>
+  category === 'letter' ? text.split('') : text.split(/(\s+)/);
+
+export function AnimatedSegment({
+  segment,
+  time = segment.startTime,
+  paused = false,
+  baseStyle,
+}: AnimatedSegmentProps) {
+  const segmentDuration = segment.endTime - segment.startTime;
+  const clock = { elapsed: Math.max(time - segment.startTime, 0), paused };
+  const caption = getCaptionCss(resolveCaptionStyle(baseStyle, segment.style));
+
+  // Karaoke effects run per word or syllable on its own schedule. Without
+  // speech timings the words are spread over the segment by length.
+  const timedAnimation = getTimedAnimation(segment.animations);
+  const timedUnits = timedAnimation?.timed
+    ? getTimedUnits(segment, timedAnimation.timed)
+    : null;
+
+  const segmentAnimations = getAnimationDefinitions(segment.animations, [
+    'segment',
+  ]).filter((definition) => !definition.timed);
+  const params = segment.animationParams;
+  const wrapper = buildAnimationStyle(segmentAnimations, {
+    segmentDuration,
+    params,
+    ...clock,
+  });
+  const splitAnimation = timedUnits
+    ? undefined
+    : getSplitAnimation(segment.animations);
+
+  // Karaoke units colour themselves, so a gradient fill only applies to
+  // plain and split text.
+  let content: React.ReactNode = <span style={caption.fill}>{segment.text}</span>;
+
+  if (timedUnits && timedAnimation) {
+    content = timedUnits.map((unit, index) => {
+      const { className, style } = buildAnimationStyle([timedAnimation], {
+        segmentDuration: unit.endTime - unit.startTime,
+        offset: unit.startTime - segment.startTime,
+        params,
+        ...clock,
+      });
+      return (
+        <span
+          key={index}
+          className={className}
+          style={style}
+        >
+          {unit.text}
+        </span>
+      );
+    });
+  } else if (splitAnimation) {
+    const category = splitAnimation.category as 'word' | 'letter';
+    let unitIndex = 0;
+    content = splitText(segment.text, category).map((unit, index) => {
+      if (category === 'word' && /^\s*$/.test(unit)) return unit;
+      if (unit === '\n') return unit;
+      const { className, style } = buildAnimationStyle([splitAnimation], {
+        segmentDuration,
+        index: unitIndex++,
+        params,
+        ...clock,
+      });
+      return (
+        <span
+          key={index}
+          className={cn('inline-block', className)}
+          style={{ ...caption.fill, ...style }}
+        >
+          {unit === ' ' ? '\u00A0' : unit}
+        </span>
+      );
+    });
+  }
+
+  return (
+    <h2
+      className={cn(
+        'relative isolate',
+        wrapper.className,
+        // Line breaks in the text are kept; see lib/line-layout.ts.
+        timedUnits ? 'whitespace-pre-wrap' : 'whitespace-pre-line'
+      )}
+      style={{ ...caption.text, ...wrapper.style }}
+    >
+      {/* A layer of its own, so text effects on the wrapper leave it alone. */}
+      {caption.box && (
+        <span aria-hidden className="absolute inset-0 -z-10" style={caption.box} />
+      )}
+      {content}
+    </h2>
+  );
+}
@@ -2,31 +2,96 @@
 
 import {
   DownloadCloud,
+  FileText,
   Loader2,
-  Monitor,
   Pause,
   Play,
   Rewind,
-  Smartphone,
+  Server,
   Sparkles,
   Volume2,
+  X,
   VolumeX,
 } from 'lucide-react';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { flushSync } from 'react-dom';
 import * as htmlToImage from 'html-to-image';
 
-import type { AnimationSegment } from '@/app/types';
+import type {
+  AnimationSegment,
+  AspectRatio,
+  CaptionAnchor,
+  ExportSettings,
+  FitMode,
+  SegmentStyle,
+} from '@/app/types';
+import { AnimatedSegment } from '@/components/animated-segment';
+import { CanvasControls } from '@/components/canvas-controls';
+import { ExportSettingsDialog } from '@/components/export-settings-dialog';
+import { SegmentTimeline } from '@/components/segment-timeline';
+import { getActiveSegments } from '@/lib/segments';
+import {
+  getCaptionStacks,
+  LAYOUT_REGIONS,
+  resolvePosition,
+  VERTICAL_MARGIN,
+} from '@/lib/layout';
+import type { HistoryCommand } from '@/lib/history';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { cn } from '@/lib/utils';
 import { Slider } from './ui/slider';
-import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { useToast } from '@/hooks/use-toast';
 import { Alert, AlertDescription, AlertTitle } from './ui/alert';
-import { renderVideoOnServer } from '@/app/actions';
+import {
+  cancelRenderJobAction,
+  cancelRenderSessionAction,
+  createRenderSessionAction,
+  exportSubtitlesAction,
+  finalizeRenderSessionAction,
+  renderVideoOnServer,
+} from '@/app/actions';
+import { createProject, serializeProject } from '@/lib/project';
+import {
+  isPortrait,
+  parseAspectRatio,
+  SAFE_AREA_GUIDES,
+  type SafeAreaGuideId,
+} from '@/lib/canvas';
+import {
+  DEFAULT_EXPORT_SETTINGS,
+  getExportExtension,
+  getExportSize,
+} from '@/lib/render/export-settings';
+import { createFrameUploader } from '@/lib/render/frame-uploader';
+import { getRenderJobDownloadUrl, watchRenderJob } from '@/lib/render/job-client';
+import type { RenderJobStatus } from '@/lib/render/job-status';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  SUBTITLE_FILE_EXTENSIONS,
+  SUBTITLE_MIME_TYPES,
+  type SubtitleFormat,
+} from '@/lib/subtitles';
+
+const STACK_JUSTIFY_CLASSES: Record<CaptionAnchor, string> = {
+  top: 'justify-start',
+  middle: 'justify-center',
+  bottom: 'justify-end',
+};
 
-const FRAME_RATE = 25;
+// Mirrors the server's fit modes (see fitToSize in lib/render/ffmpeg.ts).
+const VIDEO_FIT_CLASSES: Record<FitMode, string> = {
+  fit: 'inset-0 h-full w-full object-contain',
+  crop: 'inset-0 h-full w-full object-cover',
+  letterbox: 'left-0 top-1/2 h-auto w-full max-w-none -translate-y-1/2',
+  pillarbox: 'left-1/2 top-0 h-full w-auto max-w-none -translate-x-1/2',
+};
 
 interface AnimationPreviewProps {
   data: AnimationSegment[] | null;
@@ -34,35 +99,41 @@ interface AnimationPreviewProps {
   mediaFile?: File | null;
   mediaUrl?: string | null;
   mediaType?: string | null;
+  aspectRatio: AspectRatio;
+  onAspectRatioChange: (aspectRatio: AspectRatio) => void;
+  fitMode: FitMode;
+  onFitModeChange: (fitMode: FitMode) => void;
+  /** Project-wide caption style. */
+  captionStyle: SegmentStyle;
+  onDataChange?: (data: AnimationSegment[], command: HistoryCommand) => void;
+  selectedSegmentIndex?: number | null;
+  onSelectSegment?: (index: number | null) => void;
+  onEditSegment?: (index: number) => void;
 }
 
-type AspectRatio = '9:16' | '16:9';
-
-const getAnimationClasses = (animations: string[]) => {
-  const classes: string[] = [];
-  if (animations.includes('fadeIn')) classes.push('animation-fade-in');
-  if (animations.includes('slide')) classes.push('animation-slide-in');
-  if (animations.includes('flash')) classes.push('animation-flash');
-  if (animations.includes('zoom-in')) classes.push('animation-zoom-in');
-  if (animations.includes('shake')) classes.push('animation-shake');
-  if (animations.includes('blur-in')) classes.push('animation-blur-in');
-  if (animations.includes('karaoke-fill'))
-    classes.push('animation-karaoke-fill');
-  return classes.join(' ');
-};
-
 export function AnimationPreview({
   data,
   isGeneratingAnimation,
   mediaFile,
   mediaUrl,
   mediaType,
+  aspectRatio,
+  onAspectRatioChange,
+  fitMode,
+  onFitModeChange,
+  captionStyle,
+  onDataChange,
+  selectedSegmentIndex = null,
+  onSelectSegment,
+  onEditSegment,
 }: AnimationPreviewProps) {
   const [currentSegments, setCurrentSegments] = useState<AnimationSegment[]>(
     []
   );
   const [key, setKey] = useState(0);
-  const [aspectRatio, setAspectRatio] = useState<AspectRatio>('16:9');
+  // Timeline time the mounted segments' animations start from. Segments are
+  // remounted (via `key`) whenever it changes.
+  const [clockTime, setClockTime] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isMuted, setIsMuted] = useState(true);
   const [progress, setProgress] = useState(0);
@@ -70,9 +141,22 @@ export function AnimationPreview({
   const [isRendering, setIsRendering] = useState(false);
   const [renderProgress, setRenderProgress] = useState(0);
   const [renderMessage, setRenderMessage] = useState('');
+  const [renderJobId, setRenderJobId] = useState<string | null>(null);
+  const [safeAreas, setSafeAreas] = useState<SafeAreaGuideId[]>([]);
+  const [exportSettings, setExportSettings] = useState(DEFAULT_EXPORT_SETTINGS);
+  // Which render the export dialog will start when confirmed.
+  const [pendingExport, setPendingExport] = useState<'browser' | 'server' | null>(
+    null
+  );
+  // Set by Cancel while frames are still being captured, before there is a
+  // server job to cancel.
+  const isRenderCancelled = useRef(false);
 
   const mediaRef = useRef<HTMLVideoElement | HTMLAudioElement>(null);
   const animationFrameId = useRef<number>();
+  // What the playback loop last showed, so it only remounts the segments
+  // when a different set (or an edited one) becomes active.
+  const shownSegmentsRef = useRef<AnimationSegment[]>([]);
   const { toast } = useToast();
 
   const isVideo = mediaType?.startsWith('video/');
@@ -95,75 +179,176 @@ export function AnimationPreview({
     }
   }, [isMuted, mediaUrl]);
 
- const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+  // Shows exactly what is on screen at `time`: the active segments with their
+  // animations seeked to that moment.
+  const showFrame = (time: number) => {
+    if (!data) return;
+    const activeSegments = getActiveSegments(data, time);
+    shownSegmentsRef.current = activeSegments;
+    setCurrentSegments(activeSegments);
+    setClockTime(time);
+    setKey((k) => k + 1);
+  };
+
+
+  const downloadVideo = (videoUrl: string, settings: ExportSettings) => {
+    const a = document.createElement('a');
+    a.href = videoUrl;
+    a.download = `aivos-animation-${Date.now()}.${getExportExtension(settings)}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+
+    toast({
+      title: 'Render Complete!',
+      description: 'Your video has been downloaded.',
+    });
+  };
+
+  // Follows a queued render on the server, then downloads the result.
+  const followRenderJob = async (job: RenderJobStatus, settings: ExportSettings) => {
+    setRenderJobId(job.id);
+    // Cancel may have been pressed while the job was being queued.
+    if (isRenderCancelled.current) await cancelRenderJobAction(job.id);
+    try {
+      const finished = await watchRenderJob(job.id, (status) => {
+        setRenderMessage(`${status.stage}...`);
+        setRenderProgress(status.progress);
+      });
+      if (finished.state === 'failed') {
+        throw new Error(finished.error ?? 'An unknown error occurred on the server.');
+      }
+      if (finished.state === 'cancelled') {
+        toast({ title: 'Render Cancelled' });
+        return;
+      }
+      downloadVideo(getRenderJobDownloadUrl(job.id), settings);
+    } finally {
+      setRenderJobId(null);
+    }
+  };
+
+  const handleCancelRender = async () => {
+    isRenderCancelled.current = true;
+    setRenderMessage('Cancelling...');
+    if (renderJobId) await cancelRenderJobAction(renderJobId);
+  };
+
+  // Renders from the segments alone, without capturing frames in this tab.
+  const handleServerRender = async (settings: ExportSettings) => {
+    if (!data || !mediaFile || isRendering) return;
+
+    setIsRendering(true);
+    setIsPlaying(false);
+    if (mediaRef.current) mediaRef.current.pause();
+    setRenderMessage('Uploading media...');
+    isRenderCancelled.current = false;
 
+    try {
+      const formData = new FormData();
+      formData.append('mediaFile', mediaFile);
+      formData.append(
+        'project',
+        serializeProject(
+          createProject({ segments: data, aspectRatio, fitMode, style: captionStyle })
+        )
+      );
+      formData.append('settings', JSON.stringify(settings));
+      const result = await renderVideoOnServer(formData);
+      if (!result.data) {
+        throw new Error(result.error ?? 'Could not start the render.');
+      }
+      await followRenderJob(result.data, settings);
+    } catch (e: any) {
+      console.error('Render failed:', e);
+      toast({
+        title: 'Render Failed',
+        description: e.message || 'An unknown error occurred during rendering.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRendering(false);
+      setRenderProgress(0);
+      setRenderMessage('');
+    }
+  };
 
-  const handleDownload = async () => {
-    if (!data || !mediaFile || isRendering || !textAnimationContainerRef.current) return;
+  const handleDownload = async (settings: ExportSettings) => {
+    const container = textAnimationContainerRef.current;
+    if (!data || !mediaFile || isRendering || !container) return;
     
     setIsRendering(true);
     setIsPlaying(false);
     if(mediaRef.current) mediaRef.current.pause();
+    isRenderCancelled.current = false;
 
     const duration = totalDuration;
-    const numFrames = Math.floor(duration * FRAME_RATE);
+    const { frameRate } = settings;
+    const numFrames = Math.floor(duration * frameRate);
+    // Frames are captured at the export size; the preview box has the same
+    // aspect ratio, so scaling its width is enough.
+    const pixelRatio =
+      getExportSize(settings.resolution, aspectRatio).width / container.offsetWidth;
+    let sessionId: string | null = null;
 
     try {
-        setRenderMessage('Capturing animation frames...');
-        const framePromises: Promise<string>[] = [];
-        
+        setRenderMessage('Starting render session...');
+        const sessionForm = new FormData();
+        sessionForm.append('mediaFile', mediaFile);
+        sessionForm.append('frameCount', String(numFrames));
+        sessionForm.append('duration', String(duration));
+        sessionForm.append('isVideo', String(!!isVideo));
+        sessionForm.append('aspectRatio', aspectRatio);
+        sessionForm.append('fitMode', fitMode);
+        sessionForm.append('settings', JSON.stringify(settings));
+        const session = await createRenderSessionAction(sessionForm);
+        if (!session.data) {
+            throw new Error(session.error ?? 'Could not start the render.');
+        }
+        sessionId = session.data.id;
+
+        // Frames are uploaded in chunks while capturing, so only the
+        // unacknowledged ones are ever held in memory.
+        setRenderMessage('Capturing and uploading animation frames...');
+        const uploader = createFrameUploader(sessionId, {
+            onUploaded: (received) => setRenderProgress((received / numFrames) * 100),
+        });
+
         for (let i = 0; i < numFrames; i++) {
-            const time = i / FRAME_RATE;
-            const activeSegments = data.filter(segment => time >= segment.startTime && time < segment.endTime);
-            setCurrentSegments(activeSegments);
-            setKey(k => k + 1);
-            
-            await sleep(10); 
-            
-            const framePromise = htmlToImage.toPng(textAnimationContainerRef.current!, {
+            if (isRenderCancelled.current) {
+                await cancelRenderSessionAction(sessionId);
+                sessionId = null;
+                toast({ title: 'Render Cancelled' });
+                return;
+            }
+            const time = i / frameRate;
+            // Committed synchronously with the animations paused at `time`,
+            // so the capture below is the preview's frame at that moment.
+            flushSync(() => showFrame(time));
+
+            const frame = await htmlToImage.toBlob(container, {
                 quality: 1,
-                pixelRatio: 1,
+                pixelRatio,
                 backgroundColor: 'transparent',
             });
-            framePromises.push(framePromise);
-            setRenderProgress( (i / numFrames) * 100); 
+            if (!frame) throw new Error(`Could not capture frame ${i}.`);
+            await uploader.push(frame);
         }
+        await uploader.flush();
 
-        const frameDataUrls = await Promise.all(framePromises);
-
-        setRenderMessage('Uploading data to server for rendering...');
-        setRenderProgress(0); // Reset for upload/render progress
-
-        const formData = new FormData();
-        formData.append('mediaFile', mediaFile);
-        frameDataUrls.forEach(url => formData.append('frames', url));
-        formData.append('duration', String(duration));
-        formData.append('frameRate', String(FRAME_RATE));
-        formData.append('isVideo', String(!!isVideo));
-
-        const result = await renderVideoOnServer(formData);
-
-        if (result.error) {
-            throw new Error(result.error);
-        }
+        setRenderProgress(0);
+        setRenderMessage('Waiting for the server...');
+        const result = await finalizeRenderSessionAction(sessionId);
+        sessionId = null; // the render job owns the session from here
 
-        if(result.videoUrl) {
-            const a = document.createElement('a');
-            a.href = result.videoUrl;
-            a.download = `aivos-animation-${Date.now()}.mp4`;
-            document.body.appendChild(a);
-            a.click();
-            document.body.removeChild(a);
-            // No need to revoke, as it's a data URL from server
-            
-            toast({
-                title: 'Render Complete!',
-                description: 'Your video has been downloaded.',
-            });
+        if (!result.data) {
+            throw new Error(result.error ?? 'Could not start the render.');
         }
+        await followRenderJob(result.data, settings);
 
     } catch (e: any) {
         console.error("Render failed:", e);
+        if (sessionId) cancelRenderSessionAction(sessionId);
         toast({
             title: 'Render Failed',
             description: e.message || 'An unknown error occurred during rendering.',
@@ -176,6 +361,33 @@ export function AnimationPreview({
     }
   };
 
+  const handleExportSubtitles = async (format: SubtitleFormat) => {
+    if (!data) return;
+
+    const result = await exportSubtitlesAction(data, format, {
+      aspectRatio,
+      style: captionStyle,
+    });
+    if (result.error || result.data === null) {
+      toast({
+        title: 'Export Failed',
+        description: result.error || 'An unknown error occurred during export.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const blob = new Blob([result.data], { type: SUBTITLE_MIME_TYPES[format] });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `aivos-subtitles-${Date.now()}.${SUBTITLE_FILE_EXTENSIONS[format]}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   const updateCurrentSegments = useCallback(() => {
     if (!isPlaying) return;
 
@@ -210,24 +422,19 @@ export function AnimationPreview({
       animationFrameId.current = requestAnimationFrame(updateCurrentSegments);
       return;
     }
-
-    const activeSegments =
-      data?.filter(
-        (segment) =>
-          currentTime >= segment.startTime && currentTime < segment.endTime
-      ) || [];
-
-    setCurrentSegments((prevSegments) => {
-      const prevIds = prevSegments.map((s) => s.text + s.startTime).join(',');
-      const activeIds = activeSegments
-        .map((s) => s.text + s.startTime)
-        .join(',');
-      if (prevIds !== activeIds) {
-        setKey((k) => k + 1);
-        return activeSegments;
-      }
-      return prevSegments;
-    });
+    const time = currentTime;
+
+    const activeSegments = data ? getActiveSegments(data, time) : [];
+    const shown = shownSegmentsRef.current;
+    if (
+      activeSegments.length !== shown.length ||
+      activeSegments.some((segment, i) => segment !== shown[i])
+    ) {
+      shownSegmentsRef.current = activeSegments;
+      setCurrentSegments(activeSegments);
+      setClockTime(time);
+      setKey((k) => k + 1);
+    }
 
     animationFrameId.current = requestAnimationFrame(updateCurrentSegments);
   }, [data, isPlaying, totalDuration, progress]);
@@ -247,20 +454,106 @@ export function AnimationPreview({
     };
   }, [isPlaying, updateCurrentSegments]);
 
-  useEffect(() => {
+  const resetPlayback = () => {
     setProgress(0);
+    shownSegmentsRef.current = [];
     setCurrentSegments([]);
     setIsPlaying(false);
     if (mediaRef.current) mediaRef.current.currentTime = 0;
-  }, [data, mediaUrl]);
+  };
+
+  // Start over for new media or when the segments are cleared for a fresh
+  // generation; edits to existing segments keep the playhead where it is.
+  useEffect(() => {
+    if (!data) resetPlayback();
+  }, [data]);
+
+  useEffect(() => {
+    resetPlayback();
+  }, [mediaUrl]);
+
+  // Reflect timeline and inspector edits immediately while paused; playback
+  // picks them up on the next frame anyway.
+  useEffect(() => {
+    if (!data || isPlaying || isRendering) return;
+    showFrame((progress / 100) * totalDuration);
+  }, [data]);
 
   const textAnimationContainerRef = useRef<HTMLDivElement>(null);
 
-  const textClasses = cn(
-    'font-bold font-headline text-white',
-    'drop-shadow-[0_2px_2px_rgba(0,0,0,0.8)]',
-    'absolute inset-0 z-10 text-center flex flex-col items-center justify-center gap-2 w-full px-4',
-    aspectRatio === '16:9' ? 'text-4xl' : 'text-3xl'
+  const canvasSize = parseAspectRatio(aspectRatio);
+  const canMoveCaptions = !!data && !!onDataChange && !isRendering && !isPlaying;
+
+  // Dragging a caption gives it a free position. Pointer events are handled
+  // on the text layer, which outlives the caption elements remounted on
+  // every frame.
+  const captionDragRef = useRef<{
+    index: number;
+    offsetX: number;
+    offsetY: number;
+    coalesceKey: string;
+  } | null>(null);
+
+  const handleCaptionPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!canMoveCaptions) return;
+    const caption = (e.target as HTMLElement).closest<HTMLElement>(
+      '[data-segment-index]'
+    );
+    if (!caption) return;
+    const index = Number(caption.dataset.segmentIndex);
+    const bounds = caption.getBoundingClientRect();
+    captionDragRef.current = {
+      index,
+      offsetX: e.clientX - (bounds.left + bounds.width / 2),
+      offsetY: e.clientY - (bounds.top + bounds.height / 2),
+      coalesceKey: `position:${index}:${e.timeStamp}`,
+    };
+    e.currentTarget.setPointerCapture(e.pointerId);
+    onSelectSegment?.(index);
+  };
+
+  const handleCaptionPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = captionDragRef.current;
+    if (!drag || !data || !onDataChange) return;
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const toPercent = (value: number, size: number) =>
+      Math.round(Math.min(Math.max((value / size) * 100, 0), 100) * 10) / 10;
+    const x = toPercent(e.clientX - drag.offsetX - bounds.left, bounds.width);
+    const y = toPercent(e.clientY - drag.offsetY - bounds.top, bounds.height);
+    onDataChange(
+      data.map((segment, i) =>
+        i === drag.index
+          ? { ...segment, position: { ...segment.position, x, y } }
+          : segment
+      ),
+      { label: 'Move caption', coalesceKey: drag.coalesceKey }
+    );
+  };
+
+  // Also handles pointercancel, as in the timeline.
+  const handleCaptionPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!captionDragRef.current) return;
+    captionDragRef.current = null;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+  };
+
+  // Shown segments are always taken from `data`, so the index is found.
+  const renderCaption = (segment: AnimationSegment, style: React.CSSProperties) => (
+    <div
+      key={data?.indexOf(segment)}
+      data-segment-index={data?.indexOf(segment)}
+      className={cn(canMoveCaptions && 'cursor-move')}
+      style={style}
+    >
+      <AnimatedSegment
+        segment={segment}
+        time={clockTime}
+        paused={!isPlaying}
+        baseStyle={captionStyle}
+      />
+    </div>
   );
 
   const handlePlayPause = () => {
@@ -269,6 +562,7 @@ export function AnimationPreview({
       if (isPlaying) {
         media.pause();
         setIsPlaying(false);
+        showFrame(media.currentTime);
       } else {
         if (media.ended) {
           media.currentTime = 0;
@@ -276,14 +570,16 @@ export function AnimationPreview({
         }
         media
           .play()
-          .then(() => setIsPlaying(true))
+          .then(() => {
+            setIsPlaying(true);
+            showFrame(media.currentTime);
+          })
           .catch(console.error);
       }
     } else {
-      if (progress >= 100) {
-        setProgress(0);
-        setCurrentSegments([]);
-      }
+      const restart = progress >= 100;
+      if (restart) setProgress(0);
+      showFrame(restart ? 0 : (progress / 100) * totalDuration);
       setIsPlaying(!isPlaying);
     }
   };
@@ -300,17 +596,7 @@ export function AnimationPreview({
       if (media && isFinite(newTime)) {
         media.currentTime = newTime;
       }
-      const activeSegments =
-        data?.filter(
-          (segment) => newTime >= segment.startTime && newTime < segment.endTime
-        ) || [];
-      if (
-        activeSegments.length !== currentSegments.length ||
-        activeSegments.some((s, i) => s.text !== currentSegments[i].text)
-      ) {
-        setKey((k) => k + 1);
-        setCurrentSegments(activeSegments);
-      }
+      showFrame(newTime);
     }
   };
 
@@ -320,6 +606,7 @@ export function AnimationPreview({
       media.currentTime = 0;
     }
     setProgress(0);
+    shownSegmentsRef.current = [];
     setCurrentSegments([]);
     setIsPlaying(false);
   };
@@ -348,28 +635,23 @@ export function AnimationPreview({
     <Card className="flex flex-col sticky top-8">
       <CardHeader className="flex flex-row items-center justify-between">
         <CardTitle className="font-headline">2. Preview &amp; Download</CardTitle>
-        <ToggleGroup
-          type="single"
-          value={aspectRatio}
-          onValueChange={(value: AspectRatio) => value && setAspectRatio(value)}
-          aria-label="Aspect Ratio"
-        >
-          <ToggleGroupItem value="9:16" aria-label="9:16">
-            <Smartphone className="h-4 w-4" />
-          </ToggleGroupItem>
-          <ToggleGroupItem value="16:9" aria-label="16:9">
-            <Monitor className="h-4 w-4" />
-          </ToggleGroupItem>
-        </ToggleGroup>
+        <CanvasControls
+          aspectRatio={aspectRatio}
+          onAspectRatioChange={onAspectRatioChange}
+          fitMode={fitMode}
+          onFitModeChange={onFitModeChange}
+          showFitMode={!!isVideo}
+          safeAreas={safeAreas}
+          onSafeAreasChange={setSafeAreas}
+        />
       </CardHeader>
       <CardContent className="flex flex-1 flex-col justify-center space-y-4">
         <div
           className={cn(
-            'relative w-full overflow-hidden rounded-lg flex items-center justify-center transition-all bg-black',
-            aspectRatio === '16:9'
-              ? 'aspect-video'
-              : 'aspect-[9/16] max-h-[70vh] mx-auto'
+            'relative overflow-hidden rounded-lg flex items-center justify-center transition-all bg-black',
+            isPortrait(aspectRatio) ? 'h-[70vh] max-w-full mx-auto' : 'w-full'
           )}
+          style={{ aspectRatio: `${canvasSize.width} / ${canvasSize.height}` }}
         >
              {mediaUrl && (isVideo || isAudio) && (
               <>
@@ -377,7 +659,7 @@ export function AnimationPreview({
                   <video
                     ref={mediaRef as React.Ref<HTMLVideoElement>}
                     src={mediaUrl}
-                    className="absolute top-0 left-0 h-full w-full object-contain"
+                    className={cn('absolute', VIDEO_FIT_CLASSES[fitMode])}
                     playsInline
                     key={mediaUrl}
                     crossOrigin="anonymous"
@@ -397,68 +679,78 @@ export function AnimationPreview({
               </>
             )}
 
-            <div ref={textAnimationContainerRef} className="absolute inset-0">
-                <div key={key} className={textClasses}>
-                  {currentSegments.map((segment) => {
-                    const segmentLetterAnimationType = segment.animations.includes(
-                      'bounceLetters'
-                    )
-                      ? 'bounce'
-                      : segment.animations.includes('rainText')
-                      ? 'rain'
-                      : null;
-
-                    const animationDuration = segment.endTime - segment.startTime;
-                    const style = segment.animations.includes('karaoke-fill')
-                      ? ({
-                          '--animation-duration': `${animationDuration}s`,
-                        } as React.CSSProperties)
-                      : {};
-                    const animationClass = getAnimationClasses(segment.animations);
-
+            {/* A size container: caption lengths are in container units. */}
+            <div
+              ref={textAnimationContainerRef}
+              className="absolute inset-0 touch-none"
+              style={{ containerType: 'size' }}
+              onPointerDown={handleCaptionPointerDown}
+              onPointerMove={handleCaptionPointerMove}
+              onPointerUp={handleCaptionPointerUp}
+              onPointerCancel={handleCaptionPointerUp}
+            >
+                <div key={key} className="absolute inset-0 z-10 text-center">
+                  {getCaptionStacks(currentSegments).map((stack) => {
+                    const region = LAYOUT_REGIONS[stack.region];
                     return (
                       <div
-                        key={segment.startTime}
+                        key={`${stack.region}:${stack.anchor}`}
                         className={cn(
-                          segment.animations.includes('glow-text')
-                            ? 'animation-glow-text'
-                            : ''
+                          'absolute inset-y-0 flex flex-col items-center gap-2',
+                          STACK_JUSTIFY_CLASSES[stack.anchor]
                         )}
+                        style={{
+                          left: `${region.left}%`,
+                          width: `${region.width}%`,
+                          paddingBlock: `${VERTICAL_MARGIN}cqh`,
+                        }}
                       >
-                        {segmentLetterAnimationType ? (
-                          <h2 className={cn(animationClass)}>
-                            {segment.text.split('').map((char, index) => (
-                              <span
-                                key={index}
-                                className={cn(
-                                  segmentLetterAnimationType === 'bounce' &&
-                                    'letter-bounce',
-                                  segmentLetterAnimationType === 'rain' &&
-                                    'letter-rain'
-                                )}
-                                style={
-                                  {
-                                    '--letter-delay': `${index * 0.05}s`,
-                                  } as React.CSSProperties
-                                }
-                              >
-                                {char === ' ' ? '\u00A0' : char}
-                              </span>
-                            ))}
-                          </h2>
-                        ) : (
-                          <h2
-                            className={cn(animationClass, 'whitespace-normal')}
-                            style={style}
-                          >
-                            {segment.text}
-                          </h2>
-                        )}
+                        {stack.segments.map((segment) => {
+                          const { maxWidth, rotation } = resolvePosition(segment.position);
+                          return renderCaption(segment, {
+                            maxWidth: `${maxWidth}%`,
+                            transform: rotation ? `rotate(${rotation}deg)` : undefined,
+                          });
+                        })}
                       </div>
                     );
                   })}
+                  {currentSegments.map((segment) => {
+                    const { region, point, maxWidth, rotation } = resolvePosition(
+                      segment.position
+                    );
+                    if (!point) return null;
+                    return renderCaption(segment, {
+                      position: 'absolute',
+                      left: `${point.x}%`,
+                      top: `${point.y}%`,
+                      width: 'max-content',
+                      maxWidth: `${(LAYOUT_REGIONS[region].width * maxWidth) / 100}cqw`,
+                      transform: `translate(-50%, -50%) rotate(${rotation}deg)`,
+                    });
+                  })}
                 </div>
             </div>
+            {/* Outside the captured container, so guides never end up in a render. */}
+            {safeAreas.map((id) => {
+              const { label, insets } = SAFE_AREA_GUIDES[id];
+              return (
+                <div
+                  key={id}
+                  className="pointer-events-none absolute z-10 border border-dashed border-yellow-300/70"
+                  style={{
+                    top: `${insets.top}%`,
+                    right: `${insets.right}%`,
+                    bottom: `${insets.bottom}%`,
+                    left: `${insets.left}%`,
+                  }}
+                >
+                  <span className="absolute left-1 top-0.5 text-[10px] text-yellow-300/90">
+                    {label}
+                  </span>
+                </div>
+              );
+            })}
           {renderStatus()}
         </div>
         {isRendering && (
@@ -466,7 +758,13 @@ export function AnimationPreview({
                 <Alert>
                     <Loader2 className="h-4 w-4 animate-spin" />
                     <AlertTitle>Rendering Video...</AlertTitle>
-                    <AlertDescription>{renderMessage}</AlertDescription>
+                    <AlertDescription className="flex items-center justify-between gap-4">
+                        <span>{renderMessage}</span>
+                        <Button variant="outline" size="sm" onClick={handleCancelRender}>
+                            <X className="mr-2 h-4 w-4" />
+                            Cancel
+                        </Button>
+                    </AlertDescription>
                 </Alert>
                 <Progress value={renderProgress} className="w-full" />
             </div>
@@ -533,8 +831,23 @@ export function AnimationPreview({
                 )}
               </div>
             </div>
+            {onDataChange && (
+              <SegmentTimeline
+                segments={data}
+                duration={totalDuration}
+                currentTime={(progress / 100) * totalDuration}
+                selectedIndex={selectedSegmentIndex}
+                disabled={isGeneratingAnimation || isRendering}
+                onSelect={(index) => onSelectSegment?.(index)}
+                onChange={onDataChange}
+                onEdit={onEditSegment}
+                onSeek={(time) =>
+                  totalDuration > 0 && handleSeek([(time / totalDuration) * 100])
+                }
+              />
+            )}
             <Button
-              onClick={handleDownload}
+              onClick={() => setPendingExport('browser')}
               disabled={isGeneratingAnimation || isRendering || !mediaUrl}
               size="lg"
             >
@@ -545,8 +858,52 @@ export function AnimationPreview({
               )}
               {isRendering ? 'Rendering...' : 'Download Video'}
             </Button>
+            <Button
+              variant="outline"
+              onClick={() => setPendingExport('server')}
+              disabled={isGeneratingAnimation || isRendering || !mediaFile}
+              title="Render on the server without keeping this tab busy. Word and letter effects are simplified."
+            >
+              <Server className="mr-2 h-4 w-4" />
+              Render on Server
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="outline"
+                  disabled={isGeneratingAnimation || isRendering}
+                >
+                  <FileText className="mr-2 h-4 w-4" />
+                  Export Subtitles
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="center">
+                <DropdownMenuItem onClick={() => handleExportSubtitles('srt')}>
+                  SubRip (.srt)
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExportSubtitles('vtt')}>
+                  WebVTT (.vtt)
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExportSubtitles('ass')}>
+                  Advanced SubStation Alpha (.ass)
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
         )}
+        <ExportSettingsDialog
+          open={pendingExport !== null}
+          onOpenChange={(open) => !open && setPendingExport(null)}
+          settings={exportSettings}
+          aspectRatio={aspectRatio}
+          confirmLabel={pendingExport === 'server' ? 'Render on Server' : 'Render Video'}
+          onConfirm={(settings) => {
+            setExportSettings(settings);
+            setPendingExport(null);
+            if (pendingExport === 'server') handleServerRender(settings);
+            else handleDownload(settings);
+          }}
+        />
       </CardContent>
     </Card>
   );
@@ -0,0 +1,159 @@
+'use client';
+
+import { LayoutTemplate } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+import { AspectRatioSchema, type AspectRatio, type FitMode } from '@/app/types';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ASPECT_RATIO_PRESETS,
+  FIT_MODES,
+  parseAspectRatio,
+  SAFE_AREA_GUIDES,
+  type SafeAreaGuideId,
+} from '@/lib/canvas';
+
+const CUSTOM = 'custom';
+
+interface CanvasControlsProps {
+  aspectRatio: AspectRatio;
+  onAspectRatioChange: (aspectRatio: AspectRatio) => void;
+  fitMode: FitMode;
+  onFitModeChange: (fitMode: FitMode) => void;
+  /** Fit only matters for video, so it is hidden for audio. */
+  showFitMode: boolean;
+  safeAreas: SafeAreaGuideId[];
+  onSafeAreasChange: (safeAreas: SafeAreaGuideId[]) => void;
+}
+
+export function CanvasControls({
+  aspectRatio,
+  onAspectRatioChange,
+  fitMode,
+  onFitModeChange,
+  showFitMode,
+  safeAreas,
+  onSafeAreasChange,
+}: CanvasControlsProps) {
+  const isPreset = ASPECT_RATIO_PRESETS.some((preset) => preset.value === aspectRatio);
+  const [isCustom, setIsCustom] = useState(!isPreset);
+  const [custom, setCustom] = useState(parseAspectRatio(aspectRatio));
+
+  useEffect(() => {
+    if (!isPreset) setIsCustom(true);
+    setCustom(parseAspectRatio(aspectRatio));
+  }, [aspectRatio]);
+
+  const setCustomSide = (side: 'width' | 'height', value: number) => {
+    const next = { ...custom, [side]: value };
+    setCustom(next);
+    const ratio = AspectRatioSchema.safeParse(`${next.width}:${next.height}`);
+    if (ratio.success) onAspectRatioChange(ratio.data);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-end gap-2">
+      <Select
+        value={isCustom ? CUSTOM : aspectRatio}
+        onValueChange={(value) => {
+          setIsCustom(value === CUSTOM);
+          if (value !== CUSTOM) onAspectRatioChange(value);
+        }}
+      >
+        <SelectTrigger className="w-[150px]" aria-label="Aspect ratio">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {ASPECT_RATIO_PRESETS.map((preset) => (
+            <SelectItem key={preset.value} value={preset.value}>
+              {preset.label}
+            </SelectItem>
+          ))}
+          <SelectItem value={CUSTOM}>Custom...</SelectItem>
+        </SelectContent>
+      </Select>
+      {isCustom && (
+        <div className="flex items-center gap-1">
+          <Input
+            type="number"
+            min={1}
+            max={9999}
+            value={custom.width}
+            onChange={(e) => setCustomSide('width', parseInt(e.target.value, 10) || 0)}
+            className="w-16"
+            aria-label="Aspect ratio width"
+          />
+          <span className="text-muted-foreground">:</span>
+          <Input
+            type="number"
+            min={1}
+            max={9999}
+            value={custom.height}
+            onChange={(e) => setCustomSide('height', parseInt(e.target.value, 10) || 0)}
+            className="w-16"
+            aria-label="Aspect ratio height"
+          />
+        </div>
+      )}
+      {showFitMode && (
+        <Select value={fitMode} onValueChange={(value) => onFitModeChange(value as FitMode)}>
+          <SelectTrigger className="w-[180px]" aria-label="Video fit">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(FIT_MODES).map(([id, { label }]) => (
+              <SelectItem key={id} value={id}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant={safeAreas.length > 0 ? 'secondary' : 'outline'}
+            size="icon"
+            title="Safe-area guides"
+          >
+            <LayoutTemplate className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>Safe-area guides</DropdownMenuLabel>
+          {(Object.keys(SAFE_AREA_GUIDES) as SafeAreaGuideId[]).map((id) => (
+            <DropdownMenuCheckboxItem
+              key={id}
+              checked={safeAreas.includes(id)}
+              onCheckedChange={(checked) =>
+                onSafeAreasChange(
+                  checked
+                    ? [...safeAreas, id]
+                    : safeAreas.filter((guide) => guide !== id)
+                )
+              }
+              onSelect={(e) => e.preventDefault()}
+            >
+              {SAFE_AREA_GUIDES[id].label}
+            </DropdownMenuCheckboxItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
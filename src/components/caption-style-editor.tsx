@@ -0,0 +1,479 @@
+'use client';
+
+import { Plus, Upload, X } from 'lucide-react';
+import { useRef } from 'react';
+
+import type { SegmentStyle, TextShadow } from '@/app/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { resolveCaptionStyle, type ResolvedCaptionStyle } from '@/lib/caption-style';
+import {
+  BUNDLED_FONT_FAMILIES,
+  FONT_FILE_EXTENSIONS,
+  type UserFont,
+} from '@/lib/fonts';
+
+const FONT_WEIGHTS = [100, 200, 300, 400, 500, 600, 700, 800, 900];
+
+const NEW_SHADOW: TextShadow = { x: 0, y: 4, blur: 8, color: 'rgba(0, 0, 0, 0.6)' };
+const NEW_BACKGROUND = {
+  color: 'rgba(0, 0, 0, 0.6)',
+  paddingX: 24,
+  paddingY: 12,
+  radius: 16,
+};
+
+interface CaptionStyleEditorProps {
+  style: SegmentStyle;
+  /** Shown for every property `style` leaves unset. */
+  inherited: ResolvedCaptionStyle;
+  /** `field` names the changed property, for coalescing history entries. */
+  onChange: (style: SegmentStyle, field: keyof SegmentStyle) => void;
+  fonts: UserFont[];
+  /** Resolves with the stored font, which is then selected, or null. */
+  onUploadFont: (file: File) => Promise<UserFont | null>;
+  /** Keeps ids unique when more than one editor is mounted. */
+  idPrefix: string;
+}
+
+// Colour inputs only take #rrggbb; other CSS colours stay editable as text.
+const toHexColour = (value: string) => {
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(value.trim());
+  if (!hex) return '#000000';
+  return hex[1].length === 3
+    ? `#${hex[1].replace(/./g, (c) => c + c)}`
+    : value.trim();
+};
+
+function ColorField({
+  id,
+  value,
+  onChange,
+}: {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <div className="flex items-center gap-2">
+      <input
+        type="color"
+        value={toHexColour(value)}
+        onChange={(e) => onChange(e.target.value)}
+        className="h-9 w-9 shrink-0 cursor-pointer rounded-md border bg-transparent p-1"
+        aria-label="Pick colour"
+      />
+      <Input
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="font-mono text-xs"
+      />
+    </div>
+  );
+}
+
+function SliderField({
+  label,
+  value,
+  min,
+  max,
+  step,
+  unit = '',
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  unit?: string;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{label}</span>
+        <span className="font-mono">
+          {value}
+          {unit}
+        </span>
+      </div>
+      <Slider
+        value={[value]}
+        min={min}
+        max={max}
+        step={step}
+        onValueChange={([next]) => onChange(next)}
+      />
+    </div>
+  );
+}
+
+export function CaptionStyleEditor({
+  style,
+  inherited,
+  onChange,
+  fonts,
+  onUploadFont,
+  idPrefix,
+}: CaptionStyleEditorProps) {
+  const fontInputRef = useRef<HTMLInputElement>(null);
+  const current = resolveCaptionStyle(inherited, style);
+
+  const set = <K extends keyof SegmentStyle>(field: K, value: SegmentStyle[K]) =>
+    onChange({ ...style, [field]: value }, field);
+
+  const setShadow = (index: number, changes: Partial<TextShadow>) =>
+    set(
+      'shadows',
+      current.shadows.map((shadow, i) =>
+        i === index ? { ...shadow, ...changes } : shadow
+      )
+    );
+
+  const userFamilies = [...new Set(fonts.map((font) => font.family))].filter(
+    (family) => !BUNDLED_FONT_FAMILIES.includes(family)
+  );
+  const families = [...BUNDLED_FONT_FAMILIES, ...userFamilies];
+  // A font from an imported file that is not installed here.
+  if (!families.includes(current.fontFamily)) userFamilies.push(current.fontFamily);
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <Label htmlFor={`${idPrefix}-font`}>Font</Label>
+        <div className="mt-2 flex gap-2">
+          <Select
+            value={current.fontFamily}
+            onValueChange={(fontFamily) => set('fontFamily', fontFamily)}
+          >
+            <SelectTrigger id={`${idPrefix}-font`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                <SelectLabel>Bundled</SelectLabel>
+                {BUNDLED_FONT_FAMILIES.map((family) => (
+                  <SelectItem key={family} value={family}>
+                    <span style={{ fontFamily: `"${family}"` }}>{family}</span>
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+              {userFamilies.length > 0 && (
+                <SelectGroup>
+                  <SelectLabel>Uploaded</SelectLabel>
+                  {userFamilies.map((family) => (
+                    <SelectItem key={family} value={family}>
+                      <span style={{ fontFamily: `"${family}"` }}>{family}</span>
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              )}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="icon"
+            className="shrink-0"
+            onClick={() => fontInputRef.current?.click()}
+            title="Upload a font (.ttf or .otf)"
+          >
+            <Upload className="h-4 w-4" />
+          </Button>
+          <input
+            ref={fontInputRef}
+            type="file"
+            accept={FONT_FILE_EXTENSIONS.join(',')}
+            className="sr-only"
+            onChange={async (e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              const font = file && (await onUploadFont(file));
+              if (font) set('fontFamily', font.family);
+            }}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <SliderField
+          label="Size"
+          value={current.fontSize}
+          min={16}
+          max={240}
+          step={1}
+          unit="px"
+          onChange={(fontSize) => set('fontSize', fontSize)}
+        />
+        <div>
+          <Label htmlFor={`${idPrefix}-weight`} className="text-xs text-muted-foreground">
+            Weight
+          </Label>
+          <Select
+            value={String(current.fontWeight)}
+            onValueChange={(weight) => set('fontWeight', Number(weight))}
+          >
+            <SelectTrigger id={`${idPrefix}-weight`} className="mt-1 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FONT_WEIGHTS.map((weight) => (
+                <SelectItem key={weight} value={String(weight)}>
+                  {weight}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <SliderField
+          label="Letter spacing"
+          value={current.letterSpacing}
+          min={-0.1}
+          max={0.5}
+          step={0.01}
+          unit="em"
+          onChange={(letterSpacing) => set('letterSpacing', letterSpacing)}
+        />
+        <SliderField
+          label="Line height"
+          value={current.lineHeight}
+          min={0.8}
+          max={2}
+          step={0.05}
+          onChange={(lineHeight) => set('lineHeight', lineHeight)}
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        <Switch
+          id={`${idPrefix}-italic`}
+          checked={current.italic}
+          onCheckedChange={(italic) => set('italic', italic)}
+        />
+        <Label htmlFor={`${idPrefix}-italic`}>Italic</Label>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label htmlFor={`${idPrefix}-color`}>Fill</Label>
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`${idPrefix}-gradient`} className="text-xs text-muted-foreground">
+              Gradient
+            </Label>
+            <Switch
+              id={`${idPrefix}-gradient`}
+              checked={!!current.gradient}
+              onCheckedChange={(on) =>
+                set(
+                  'gradient',
+                  on ? { from: current.color, to: '#ff6bcb', angle: 90 } : null
+                )
+              }
+            />
+          </div>
+        </div>
+        {current.gradient ? (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              <ColorField
+                id={`${idPrefix}-gradient-from`}
+                value={current.gradient.from}
+                onChange={(from) => set('gradient', { ...current.gradient!, from })}
+              />
+              <ColorField
+                id={`${idPrefix}-gradient-to`}
+                value={current.gradient.to}
+                onChange={(to) => set('gradient', { ...current.gradient!, to })}
+              />
+            </div>
+            <SliderField
+              label="Angle"
+              value={current.gradient.angle}
+              min={0}
+              max={360}
+              step={5}
+              unit="°"
+              onChange={(angle) => set('gradient', { ...current.gradient!, angle })}
+            />
+          </div>
+        ) : (
+          <ColorField
+            id={`${idPrefix}-color`}
+            value={current.color}
+            onChange={(color) => set('color', color)}
+          />
+        )}
+        <div>
+          <Label htmlFor={`${idPrefix}-karaoke`} className="text-xs text-muted-foreground">
+            Karaoke (unsung text)
+          </Label>
+          <div className="mt-1">
+            <ColorField
+              id={`${idPrefix}-karaoke`}
+              value={current.karaokeColor ?? 'rgba(255, 255, 255, 0.5)'}
+              onChange={(karaokeColor) => set('karaokeColor', karaokeColor)}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <Label htmlFor={`${idPrefix}-outline`}>Outline</Label>
+        <ColorField
+          id={`${idPrefix}-outline`}
+          value={current.outlineColor ?? '#000000'}
+          onChange={(outlineColor) => set('outlineColor', outlineColor)}
+        />
+        <SliderField
+          label="Width"
+          value={current.outlineWidth}
+          min={0}
+          max={20}
+          step={0.5}
+          unit="px"
+          onChange={(outlineWidth) =>
+            onChange(
+              {
+                ...style,
+                outlineWidth,
+                outlineColor: current.outlineColor ?? '#000000',
+              },
+              'outlineWidth'
+            )
+          }
+        />
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label>Shadows</Label>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => set('shadows', [...current.shadows, NEW_SHADOW])}
+          >
+            <Plus className="mr-1 h-4 w-4" /> Add
+          </Button>
+        </div>
+        {current.shadows.length === 0 && (
+          <p className="text-sm text-muted-foreground">No shadows.</p>
+        )}
+        {current.shadows.map((shadow, index) => (
+          <div key={index} className="space-y-3 rounded-md border p-3">
+            <div className="flex items-center gap-2">
+              <div className="flex-1">
+                <ColorField
+                  id={`${idPrefix}-shadow-${index}`}
+                  value={shadow.color}
+                  onChange={(color) => setShadow(index, { color })}
+                />
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() =>
+                  set(
+                    'shadows',
+                    current.shadows.filter((_, i) => i !== index)
+                  )
+                }
+                aria-label="Remove shadow"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <SliderField
+                label="X"
+                value={shadow.x}
+                min={-40}
+                max={40}
+                step={1}
+                onChange={(x) => setShadow(index, { x })}
+              />
+              <SliderField
+                label="Y"
+                value={shadow.y}
+                min={-40}
+                max={40}
+                step={1}
+                onChange={(y) => setShadow(index, { y })}
+              />
+              <SliderField
+                label="Blur"
+                value={shadow.blur}
+                min={0}
+                max={60}
+                step={1}
+                onChange={(blur) => setShadow(index, { blur })}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label htmlFor={`${idPrefix}-background`}>Background box</Label>
+          <Switch
+            id={`${idPrefix}-background`}
+            checked={!!current.background}
+            onCheckedChange={(on) => set('background', on ? NEW_BACKGROUND : null)}
+          />
+        </div>
+        {current.background && (
+          <>
+            <ColorField
+              id={`${idPrefix}-background-color`}
+              value={current.background.color}
+              onChange={(color) => set('background', { ...current.background!, color })}
+            />
+            <div className="grid grid-cols-3 gap-3">
+              <SliderField
+                label="Padding X"
+                value={current.background.paddingX}
+                min={0}
+                max={120}
+                step={1}
+                onChange={(paddingX) =>
+                  set('background', { ...current.background!, paddingX })
+                }
+              />
+              <SliderField
+                label="Padding Y"
+                value={current.background.paddingY}
+                min={0}
+                max={120}
+                step={1}
+                onChange={(paddingY) =>
+                  set('background', { ...current.background!, paddingY })
+                }
+              />
+              <SliderField
+                label="Radius"
+                value={current.background.radius}
+                min={0}
+                max={200}
+                step={1}
+                onChange={(radius) => set('background', { ...current.background!, radius })}
+              />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
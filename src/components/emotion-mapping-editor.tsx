@@ -0,0 +1,266 @@
+'use client';
+
+import { ArrowDown, ArrowUp, Paintbrush, Plus, Trash2, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+import {
+  EmotionMappingSchema,
+  type EmotionMapping,
+  type SegmentStyle,
+} from '@/app/types';
+import { CaptionStyleEditor } from '@/components/caption-style-editor';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger } from '@/components/ui/select';
+import { getAnimation, listAnimations } from '@/lib/animations';
+import { resolveCaptionStyle } from '@/lib/caption-style';
+import { DEFAULT_EMOTION_MAPPING } from '@/lib/emotions';
+import type { UserFont } from '@/lib/fonts';
+import { formatZodError } from '@/lib/project';
+
+interface EmotionMappingEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mapping: EmotionMapping;
+  onChange: (mapping: EmotionMapping) => void;
+  /** The project's style, which rule styles are layered over. */
+  baseStyle: SegmentStyle;
+  fonts: UserFont[];
+  onUploadFont: (file: File) => Promise<UserFont | null>;
+}
+
+type EmotionRuleDraft = EmotionMapping[number];
+
+export function EmotionMappingEditor({
+  open,
+  onOpenChange,
+  mapping,
+  onChange,
+  baseStyle,
+  fonts,
+  onUploadFont,
+}: EmotionMappingEditorProps) {
+  // Edits stay local until saved, so a half-typed label never reaches the
+  // project or an analysis request.
+  const [rules, setRules] = useState<EmotionRuleDraft[]>(mapping);
+  const [styledRule, setStyledRule] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setRules(mapping);
+    setStyledRule(null);
+    setError(null);
+  }, [open]);
+
+  const updateRule = (index: number, changes: Partial<EmotionRuleDraft>) =>
+    setRules((current) =>
+      current.map((rule, i) => (i === index ? { ...rule, ...changes } : rule))
+    );
+
+  const moveAnimation = (index: number, from: number, direction: -1 | 1) => {
+    const animations = [...rules[index].animations];
+    const to = from + direction;
+    if (to < 0 || to >= animations.length) return;
+    [animations[from], animations[to]] = [animations[to], animations[from]];
+    updateRule(index, { animations });
+  };
+
+  const removeRule = (index: number) => {
+    setRules((current) => current.filter((_, i) => i !== index));
+    setStyledRule(null);
+  };
+
+  const handleSave = () => {
+    const parsed = EmotionMappingSchema.safeParse(rules);
+    if (!parsed.success) {
+      setError(formatZodError(parsed.error));
+      return;
+    }
+    onChange(parsed.data);
+    onOpenChange(false);
+  };
+
+  const inherited = resolveCaptionStyle(baseStyle);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-headline">Emotion Mapping</DialogTitle>
+          <DialogDescription>
+            The animations, in order, and style each emotion gets when
+            analyzing. Custom labels are offered to the AI analyzer too.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh]">
+          <div className="space-y-3 pr-3">
+            {rules.length === 0 && (
+              <p className="py-6 text-center text-sm text-muted-foreground">
+                No rules. Segments keep the analyzer&apos;s suggestions.
+              </p>
+            )}
+            {rules.map((rule, index) => {
+              const availableAnimations = listAnimations().filter(
+                (definition) => !rule.animations.includes(definition.id)
+              );
+              return (
+                <div key={index} className="space-y-3 rounded-md border p-3">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={rule.emotion}
+                      onChange={(e) => updateRule(index, { emotion: e.target.value })}
+                      placeholder="Emotion"
+                      aria-label="Emotion"
+                      className="h-8 flex-1"
+                    />
+                    <Button
+                      variant={styledRule === index ? 'secondary' : 'ghost'}
+                      size="sm"
+                      onClick={() => setStyledRule(styledRule === index ? null : index)}
+                    >
+                      <Paintbrush className="mr-2 h-4 w-4" />
+                      Style
+                      {rule.style && (
+                        <Badge variant="outline" className="ml-2">
+                          Custom
+                        </Badge>
+                      )}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => removeRule(index)}
+                      aria-label="Remove rule"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-2">
+                    {rule.animations.map((id, position) => (
+                      <Badge key={id} variant="secondary" className="gap-1 pr-1">
+                        {getAnimation(id)?.name ?? id}
+                        <button
+                          type="button"
+                          onClick={() => moveAnimation(index, position, -1)}
+                          disabled={position === 0}
+                          className="disabled:opacity-30"
+                          aria-label="Move up"
+                        >
+                          <ArrowUp className="h-3 w-3" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => moveAnimation(index, position, 1)}
+                          disabled={position === rule.animations.length - 1}
+                          className="disabled:opacity-30"
+                          aria-label="Move down"
+                        >
+                          <ArrowDown className="h-3 w-3" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            updateRule(index, {
+                              animations: rule.animations.filter((a) => a !== id),
+                            })
+                          }
+                          aria-label="Remove animation"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                    {availableAnimations.length > 0 && (
+                      <Select
+                        value=""
+                        onValueChange={(id) =>
+                          updateRule(index, { animations: [...rule.animations, id] })
+                        }
+                      >
+                        <SelectTrigger className="h-7 w-auto gap-2" aria-label="Add animation">
+                          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                            <Plus className="h-3 w-3" /> Add
+                          </span>
+                        </SelectTrigger>
+                        <SelectContent>
+                          {availableAnimations.map((definition) => (
+                            <SelectItem key={definition.id} value={definition.id}>
+                              {definition.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </div>
+
+                  {styledRule === index && (
+                    <div className="space-y-3 border-t pt-3">
+                      <div className="flex justify-end">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => updateRule(index, { style: undefined })}
+                          disabled={!rule.style}
+                        >
+                          Use project style
+                        </Button>
+                      </div>
+                      <CaptionStyleEditor
+                        style={rule.style ?? {}}
+                        inherited={inherited}
+                        onChange={(style) => updateRule(index, { style })}
+                        fonts={fonts}
+                        onUploadFont={onUploadFont}
+                        idPrefix={`emotion-rule-${index}`}
+                      />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() =>
+                setRules((current) => [...current, { emotion: '', animations: [] }])
+              }
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add emotion
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={() => {
+                setRules(DEFAULT_EMOTION_MAPPING);
+                setStyledRule(null);
+              }}
+            >
+              Reset to defaults
+            </Button>
+          </div>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,293 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import type {
+  AspectRatio,
+  ExportOutput,
+  ExportResolution,
+  ExportSettings,
+  VideoCodec,
+  VideoContainer,
+} from '@/app/types';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import {
+  EXPORT_FRAME_RATES,
+  EXPORT_OUTPUTS,
+  EXPORT_RESOLUTIONS,
+  getCodecContainers,
+  getExportSize,
+  VIDEO_CODECS,
+  VIDEO_CONTAINERS,
+  validateExportSettings,
+} from '@/lib/render/export-settings';
+
+interface ExportSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  settings: ExportSettings;
+  aspectRatio: AspectRatio;
+  /** Label of the button that starts the export, e.g. "Render in Browser". */
+  confirmLabel: string;
+  onConfirm: (settings: ExportSettings) => void;
+}
+
+export function ExportSettingsDialog({
+  open,
+  onOpenChange,
+  settings,
+  aspectRatio,
+  confirmLabel,
+  onConfirm,
+}: ExportSettingsDialogProps) {
+  const [draft, setDraft] = useState(settings);
+
+  useEffect(() => {
+    if (open) setDraft(settings);
+  }, [open, settings]);
+
+  const codec = VIDEO_CODECS[draft.codec];
+  const size = getExportSize(draft.resolution, aspectRatio);
+  const { error } = validateExportSettings(draft);
+
+  const update = (changes: Partial<ExportSettings>) =>
+    setDraft((current) => ({ ...current, ...changes }));
+
+  const codecs = (Object.keys(VIDEO_CODECS) as VideoCodec[]).filter(
+    (id) => getCodecContainers(id, draft.output).length > 0
+  );
+
+  // Keep the container and quality valid for the newly chosen codec.
+  const setCodec = (id: VideoCodec, output = draft.output) => {
+    const containers = getCodecContainers(id, output);
+    const { maxCrf } = VIDEO_CODECS[id];
+    update({
+      output,
+      codec: id,
+      container: containers.includes(draft.container) ? draft.container : containers[0],
+      crf: maxCrf === null ? draft.crf : Math.min(draft.crf, maxCrf),
+    });
+  };
+
+  // Overlays need a codec with an alpha channel; VP9 is the lighter one.
+  const setOutput = (output: ExportOutput) =>
+    setCodec(
+      getCodecContainers(draft.codec, output).length > 0 ? draft.codec : 'vp9',
+      output
+    );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-headline">Export Settings</DialogTitle>
+          <DialogDescription>
+            Output is {size.width} × {size.height} at {draft.frameRate} fps.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div>
+          <Label htmlFor="export-output">Output</Label>
+          <Select
+            value={draft.output}
+            onValueChange={(output) => setOutput(output as ExportOutput)}
+          >
+            <SelectTrigger id="export-output" className="mt-2">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(EXPORT_OUTPUTS).map(([id, { label }]) => (
+                <SelectItem key={id} value={id}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {draft.output !== 'composite' && (
+            <p className="mt-1 text-xs text-muted-foreground">
+              Only the animated text, on a transparent background, for layering
+              over footage in an editor.
+            </p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="export-resolution">Resolution</Label>
+            <Select
+              value={draft.resolution}
+              onValueChange={(resolution) =>
+                update({ resolution: resolution as ExportResolution })
+              }
+            >
+              <SelectTrigger id="export-resolution" className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(EXPORT_RESOLUTIONS).map(([id, { label }]) => (
+                  <SelectItem key={id} value={id}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="export-frame-rate">Frame rate</Label>
+            <Select
+              value={String(draft.frameRate)}
+              onValueChange={(frameRate) =>
+                update({ frameRate: Number(frameRate) as ExportSettings['frameRate'] })
+              }
+            >
+              <SelectTrigger id="export-frame-rate" className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPORT_FRAME_RATES.map((frameRate) => (
+                  <SelectItem key={frameRate} value={String(frameRate)}>
+                    {frameRate} fps
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {draft.output !== 'png-sequence' && (
+            <>
+              <div>
+                <Label htmlFor="export-codec">Codec</Label>
+                <Select
+                  value={draft.codec}
+                  onValueChange={(id) => setCodec(id as VideoCodec)}
+                >
+                  <SelectTrigger id="export-codec" className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {codecs.map((id) => (
+                      <SelectItem key={id} value={id}>
+                        {VIDEO_CODECS[id].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="export-container">Container</Label>
+                <Select
+                  value={draft.container}
+                  onValueChange={(container) =>
+                    update({ container: container as VideoContainer })
+                  }
+                >
+                  <SelectTrigger id="export-container" className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {getCodecContainers(draft.codec, draft.output).map((id) => (
+                      <SelectItem key={id} value={id}>
+                        {VIDEO_CONTAINERS[id].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+        </div>
+
+        {draft.output === 'png-sequence' ? (
+          <p className="text-sm text-muted-foreground">
+            Frames are saved as lossless PNGs at the chosen resolution.
+          </p>
+        ) : codec.maxCrf === null ? (
+          <p className="text-sm text-muted-foreground">
+            {codec.label} quality is fixed by its profile.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <RadioGroup
+              value={draft.rateControl}
+              onValueChange={(rateControl) =>
+                update({ rateControl: rateControl as ExportSettings['rateControl'] })
+              }
+              className="flex gap-6"
+            >
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="crf" id="export-rate-crf" />
+                <Label htmlFor="export-rate-crf">Constant quality</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="bitrate" id="export-rate-bitrate" />
+                <Label htmlFor="export-rate-bitrate">Target bitrate</Label>
+              </div>
+            </RadioGroup>
+            {draft.rateControl === 'crf' ? (
+              <div>
+                <div className="flex justify-between text-sm">
+                  <Label htmlFor="export-crf">CRF</Label>
+                  <span className="text-muted-foreground">
+                    {draft.crf} (lower is better)
+                  </span>
+                </div>
+                <Slider
+                  id="export-crf"
+                  min={0}
+                  max={codec.maxCrf}
+                  step={1}
+                  value={[draft.crf]}
+                  onValueChange={([crf]) => update({ crf })}
+                  className="mt-3"
+                />
+              </div>
+            ) : (
+              <div>
+                <Label htmlFor="export-bitrate">Bitrate (kbit/s)</Label>
+                <Input
+                  id="export-bitrate"
+                  type="number"
+                  min={100}
+                  max={200000}
+                  step={100}
+                  value={draft.bitrate}
+                  onChange={(e) => update({ bitrate: parseInt(e.target.value, 10) || 0 })}
+                  className="mt-2"
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button disabled={!!error} onClick={() => onConfirm(draft)}>
+            {confirmLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
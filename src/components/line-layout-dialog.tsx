@@ -0,0 +1,160 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+
+import type { AnimationSegment, AspectRatio, SegmentStyle } from '@/app/types';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { resolveCaptionStyle } from '@/lib/caption-style';
+import {
+  getDefaultLineLimits,
+  layoutSegmentLines,
+  type LineLimits,
+  type LineLayoutResult,
+} from '@/lib/line-layout';
+
+interface LineLayoutDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  segments: AnimationSegment[];
+  aspectRatio: AspectRatio;
+  /** The project's style, which sets how many characters fit a line. */
+  captionStyle: SegmentStyle;
+  onApply: (result: LineLayoutResult) => void;
+}
+
+// Cue numbers as in the SRT export, e.g. "2, 5 and 9".
+export function formatCueNumbers(indexes: number[]): string {
+  const numbers = indexes.map((index) => String(index + 1));
+  return numbers.length > 1
+    ? `${numbers.slice(0, -1).join(', ')} and ${numbers[numbers.length - 1]}`
+    : numbers.join('');
+}
+
+export function LineLayoutDialog({
+  open,
+  onOpenChange,
+  segments,
+  aspectRatio,
+  captionStyle,
+  onApply,
+}: LineLayoutDialogProps) {
+  const defaults = getDefaultLineLimits(aspectRatio, resolveCaptionStyle(captionStyle));
+  const [options, setOptions] = useState<LineLimits & { paging: boolean }>({
+    ...defaults,
+    paging: true,
+  });
+
+  // Limits follow the canvas each time, since they depend on its shape.
+  useEffect(() => {
+    if (open) setOptions((current) => ({ ...current, ...defaults }));
+  }, [open, aspectRatio]);
+
+  const result = useMemo(
+    () =>
+      open
+        ? layoutSegmentLines(segments, { ...options, aspectRatio, baseStyle: captionStyle })
+        : null,
+    [open, segments, options, aspectRatio, captionStyle]
+  );
+  const changes = result?.changes ?? [];
+  const paged = changes
+    .filter((change) => change.pages > 1)
+    .map((change) => change.index);
+  const overflowing = result?.overflowing ?? [];
+
+  const setLimit = (field: 'maxCharsPerLine' | 'maxLines', value: string) => {
+    const parsed = parseInt(value, 10);
+    if (parsed > 0) setOptions((current) => ({ ...current, [field]: parsed }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-headline">Line Breaks</DialogTitle>
+          <DialogDescription>
+            Re-flow every caption into balanced lines. Defaults fit the
+            current aspect ratio and font size; narrower captions, e.g. in
+            the left or right half, get fewer characters.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="line-layout-chars">Max characters per line</Label>
+            <Input
+              id="line-layout-chars"
+              type="number"
+              min={1}
+              value={options.maxCharsPerLine}
+              onChange={(e) => setLimit('maxCharsPerLine', e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="line-layout-lines">Lines per caption</Label>
+            <Input
+              id="line-layout-lines"
+              type="number"
+              min={1}
+              value={options.maxLines}
+              onChange={(e) => setLimit('maxLines', e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="line-layout-paging">Page long captions</Label>
+            <p className="text-xs text-muted-foreground">
+              Splits captions with too many lines into consecutive ones, timed
+              by their words.
+            </p>
+          </div>
+          <Switch
+            id="line-layout-paging"
+            checked={options.paging}
+            onCheckedChange={(paging) => setOptions((current) => ({ ...current, paging }))}
+          />
+        </div>
+
+        <div className="space-y-1 text-sm text-muted-foreground">
+          <p>
+            {changes.length === 0
+              ? 'No captions need new line breaks.'
+              : `${changes.length} caption${changes.length === 1 ? '' : 's'} will change.`}
+          </p>
+          {paged.length > 0 && <p>Captions {formatCueNumbers(paged)} will be paged.</p>}
+          {overflowing.length > 0 && (
+            <p className="text-destructive">
+              Captions {formatCueNumbers(overflowing)} will still have more than{' '}
+              {options.maxLines} line{options.maxLines === 1 ? '' : 's'}.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => result && onApply(result)}
+            disabled={changes.length === 0}
+          >
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
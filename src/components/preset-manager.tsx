@@ -0,0 +1,369 @@
+'use client';
+
+import { Download, Server, Star, Trash2, Upload } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+
+import {
+  deletePresetAction,
+  listPresetsAction,
+  savePresetAction,
+} from '@/app/actions';
+import type {
+  AnimationSegment,
+  SegmentPosition,
+  SegmentStyle,
+  StylePreset,
+} from '@/app/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import {
+  createPreset,
+  getDefaultPresetId,
+  loadLocalPresets,
+  parsePresets,
+  PRESET_FILE_EXTENSION,
+  type PresetStyleMode,
+  saveLocalPresets,
+  serializePresets,
+  setDefaultPresetId,
+} from '@/lib/presets';
+
+type PresetStorage = 'browser' | 'server';
+
+const STORAGE_LABELS: Record<PresetStorage, string> = {
+  browser: 'This browser',
+  server: 'Server (shared)',
+};
+
+interface PresetManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The project's current look, for saving as a new preset. */
+  captionStyle: SegmentStyle;
+  /** Saved as the preset's overall position. */
+  position: SegmentPosition;
+  segments: AnimationSegment[];
+  canApplyToSegment: boolean;
+  /** `style` says what happens to the segments' own styles. */
+  onApplyToProject: (preset: StylePreset, style: PresetStyleMode) => void;
+  onApplyToSegment: (preset: StylePreset) => void;
+}
+
+function downloadPresets(presets: StylePreset[], name: string) {
+  const blob = new Blob([serializePresets(presets)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'presets'}${PRESET_FILE_EXTENSION}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+export function PresetManager({
+  open,
+  onOpenChange,
+  captionStyle,
+  position,
+  segments,
+  canApplyToSegment,
+  onApplyToProject,
+  onApplyToSegment,
+}: PresetManagerProps) {
+  const [localPresets, setLocalPresets] = useState<StylePreset[]>([]);
+  const [serverPresets, setServerPresets] = useState<StylePreset[]>([]);
+  const [defaultId, setDefaultId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [storage, setStorage] = useState<PresetStorage>('browser');
+  const [clearSegmentStyles, setClearSegmentStyles] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setLocalPresets(loadLocalPresets());
+    setDefaultId(getDefaultPresetId());
+    listPresetsAction().then(({ data, error }) => {
+      setServerPresets(data);
+      if (error) {
+        toast({
+          title: 'Could Not Load Shared Presets',
+          description: error,
+          variant: 'destructive',
+        });
+      }
+    });
+  }, [open]);
+
+  const updateLocalPresets = (presets: StylePreset[]) => {
+    setLocalPresets(presets);
+    saveLocalPresets(presets);
+  };
+
+  // Adds or replaces presets by id in the chosen store.
+  const storePresets = async (presets: StylePreset[], target: PresetStorage) => {
+    if (target === 'browser') {
+      const ids = new Set(presets.map((preset) => preset.id));
+      updateLocalPresets([
+        ...localPresets.filter((preset) => !ids.has(preset.id)),
+        ...presets,
+      ]);
+      return true;
+    }
+    for (const preset of presets) {
+      const result = await savePresetAction(preset);
+      if (!result.data) {
+        toast({
+          title: 'Could Not Save Preset',
+          description: result.error || 'The preset could not be saved on the server.',
+          variant: 'destructive',
+        });
+        return false;
+      }
+    }
+    setServerPresets((await listPresetsAction()).data);
+    return true;
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    const preset = createPreset(name, captionStyle, position, segments);
+    if (await storePresets([preset], storage)) {
+      setName('');
+      toast({ title: 'Preset Saved', description: preset.name });
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const result = parsePresets(await file.text());
+    if (!result.data) {
+      toast({
+        title: 'Could Not Import Presets',
+        description: result.error || 'The file could not be read.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (await storePresets(result.data, storage)) {
+      toast({
+        title: 'Presets Imported',
+        description: `${result.data.length} preset${result.data.length === 1 ? '' : 's'} added to ${STORAGE_LABELS[storage].toLowerCase()}.`,
+      });
+    }
+  };
+
+  const handleDelete = async (preset: StylePreset, source: PresetStorage) => {
+    if (source === 'browser') {
+      updateLocalPresets(localPresets.filter((p) => p.id !== preset.id));
+    } else {
+      const { error } = await deletePresetAction(preset.id);
+      if (error) {
+        toast({
+          title: 'Could Not Delete Preset',
+          description: error,
+          variant: 'destructive',
+        });
+        return;
+      }
+      setServerPresets((current) => current.filter((p) => p.id !== preset.id));
+    }
+    if (defaultId === preset.id) {
+      setDefaultId(null);
+      setDefaultPresetId(null);
+    }
+  };
+
+  const toggleDefault = (preset: StylePreset) => {
+    const id = defaultId === preset.id ? null : preset.id;
+    setDefaultId(id);
+    setDefaultPresetId(id);
+  };
+
+  const rows = [
+    ...localPresets.map((preset) => ({ preset, source: 'browser' as const })),
+    ...serverPresets.map((preset) => ({ preset, source: 'server' as const })),
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="font-headline">Style Presets</DialogTitle>
+          <DialogDescription>
+            Save a channel&apos;s caption look (style, animations per emotion
+            and position) and reuse it. New projects start with the starred
+            preset.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-2">
+          <div className="flex-1">
+            <Label htmlFor="preset-name">Save current look as</Label>
+            <Input
+              id="preset-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Preset name"
+              className="mt-2"
+            />
+          </div>
+          <Select value={storage} onValueChange={(value) => setStorage(value as PresetStorage)}>
+            <SelectTrigger className="w-[160px]" aria-label="Store presets in">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(STORAGE_LABELS).map(([id, label]) => (
+                <SelectItem key={id} value={id}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleSave} disabled={!name.trim()}>
+            Save
+          </Button>
+        </div>
+
+        <ScrollArea className="max-h-[320px]">
+          <div className="space-y-2 pr-3">
+            {rows.length === 0 && (
+              <p className="py-6 text-center text-sm text-muted-foreground">
+                No presets yet.
+              </p>
+            )}
+            {rows.map(({ preset, source }) => (
+              <div
+                key={`${source}:${preset.id}`}
+                className="flex items-center gap-2 rounded-md border p-2"
+              >
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() => toggleDefault(preset)}
+                  title={
+                    defaultId === preset.id
+                      ? 'Default for new projects'
+                      : 'Use for new projects'
+                  }
+                >
+                  <Star
+                    className={
+                      defaultId === preset.id
+                        ? 'h-4 w-4 fill-primary text-primary'
+                        : 'h-4 w-4'
+                    }
+                  />
+                </Button>
+                <span className="flex-1 truncate text-sm font-medium">
+                  {preset.name}
+                </span>
+                {source === 'server' && (
+                  <Badge variant="secondary" className="gap-1">
+                    <Server className="h-3 w-3" /> Shared
+                  </Badge>
+                )}
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() =>
+                    onApplyToProject(preset, clearSegmentStyles ? 'clear' : 'keep')
+                  }
+                >
+                  Project
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => onApplyToSegment(preset)}
+                  disabled={!canApplyToSegment}
+                  title="Apply to the selected segment"
+                >
+                  Segment
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => downloadPresets([preset], preset.name)}
+                  aria-label="Export preset"
+                >
+                  <Download className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => handleDelete(preset, source)}
+                  aria-label="Delete preset"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="preset-clear-styles">Clear segment styles</Label>
+            <p className="text-xs text-muted-foreground">
+              Applying to the project also removes styles set on single
+              segments, e.g. by an ASS file or emotion mapping.
+            </p>
+          </div>
+          <Switch
+            id="preset-clear-styles"
+            checked={clearSegmentStyles}
+            onCheckedChange={setClearSegmentStyles}
+          />
+        </div>
+
+        <div className="flex justify-between gap-2">
+          <Button variant="outline" onClick={() => importInputRef.current?.click()}>
+            <Upload className="mr-2 h-4 w-4" />
+            Import
+          </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="sr-only"
+            onChange={handleImport}
+          />
+          <Button
+            variant="outline"
+            onClick={() => downloadPresets(rows.map((row) => row.preset), 'presets')}
+            disabled={rows.length === 0}
+          >
+            <Download className="mr-2 h-4 w-4" />
+            Export all
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
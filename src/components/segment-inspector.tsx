@@ -0,0 +1,479 @@
+'use client';
+
+import { ArrowDown, ArrowUp, Plus, X } from 'lucide-react';
+
+import type {
+  AnimationSegment,
+  CaptionAnchor,
+  LayoutRegion,
+  SegmentPosition,
+  SegmentStyle,
+} from '@/app/types';
+import { CaptionStyleEditor } from '@/components/caption-style-editor';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Slider } from '@/components/ui/slider';
+import { Textarea } from '@/components/ui/textarea';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  getAnimation,
+  listAnimations,
+  resolveAnimationParams,
+} from '@/lib/animations';
+import { resolveCaptionStyle } from '@/lib/caption-style';
+import { DEFAULT_EMOTIONS } from '@/lib/emotions';
+import type { UserFont } from '@/lib/fonts';
+import type { HistoryCommand } from '@/lib/history';
+import { CAPTION_ANCHORS, LAYOUT_REGIONS, resolvePosition } from '@/lib/layout';
+import { MIN_SEGMENT_DURATION, trimSegment } from '@/lib/segments';
+import { distributeWordTimings } from '@/lib/timing';
+
+interface SegmentInspectorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  segment: AnimationSegment | null;
+  segmentIndex: number | null;
+  onChange: (segment: AnimationSegment, command: HistoryCommand) => void;
+  /** The project's style, which the segment's own overrides. */
+  baseStyle: SegmentStyle;
+  fonts: UserFont[];
+  onUploadFont: (file: File) => Promise<UserFont | null>;
+  /** Labels from the project's emotion mapping, including custom ones. */
+  emotions: string[];
+}
+
+const CATEGORY_LABELS = {
+  segment: 'Segment',
+  word: 'Word',
+  letter: 'Letter',
+};
+
+export function SegmentInspector({
+  open,
+  onOpenChange,
+  segment,
+  segmentIndex,
+  onChange,
+  baseStyle,
+  fonts,
+  onUploadFont,
+  emotions: mappedEmotions,
+}: SegmentInspectorProps) {
+  if (!segment) return null;
+
+  const emotions = [
+    ...new Set([...DEFAULT_EMOTIONS, ...mappedEmotions, segment.emotion]),
+  ];
+  const availableAnimations = listAnimations().filter(
+    (definition) => !segment.animations.includes(definition.id)
+  );
+
+  const update = (
+    changes: Partial<AnimationSegment>,
+    label: string,
+    coalesceField?: string
+  ) =>
+    onChange(
+      { ...segment, ...changes },
+      {
+        label,
+        coalesceKey: coalesceField
+          ? `inspector:${segmentIndex}:${coalesceField}`
+          : undefined,
+      }
+    );
+
+  const moveAnimation = (index: number, direction: -1 | 1) => {
+    const animations = [...segment.animations];
+    const target = index + direction;
+    if (target < 0 || target >= animations.length) return;
+    [animations[index], animations[target]] = [animations[target], animations[index]];
+    update({ animations }, 'Reorder animations');
+  };
+
+  const removeAnimation = (id: string) => {
+    const { [id]: _removed, ...animationParams } = segment.animationParams ?? {};
+    update(
+      {
+        animations: segment.animations.filter((animation) => animation !== id),
+        animationParams,
+      },
+      'Remove animation'
+    );
+  };
+
+  const setParam = (animationId: string, paramId: string, value: number) => {
+    update(
+      {
+        animationParams: {
+          ...segment.animationParams,
+          [animationId]: {
+            ...segment.animationParams?.[animationId],
+            [paramId]: value,
+          },
+        },
+      },
+      'Change animation parameter',
+      `param:${animationId}:${paramId}`
+    );
+  };
+
+  const position = resolvePosition(segment.position);
+  const setPosition = (
+    changes: Partial<SegmentPosition>,
+    label: string,
+    coalesceField?: string
+  ) =>
+    update(
+      { position: { ...segment.position, ...changes } },
+      label,
+      coalesceField && `position:${coalesceField}`
+    );
+
+  const clearFreePosition = () => {
+    const { x: _x, y: _y, ...rest } = segment.position ?? {};
+    update({ position: rest }, 'Reset caption position');
+  };
+
+  // Trimming keeps word and syllable timings inside the new range. The
+  // inspector has no media duration, so only the start is bounded.
+  const setTime = (edge: 'startTime' | 'endTime', value: number) => {
+    if (!isFinite(value) || value < 0) return;
+    if (edge === 'startTime' && value > segment.endTime - MIN_SEGMENT_DURATION) return;
+    if (edge === 'endTime' && value < segment.startTime + MIN_SEGMENT_DURATION) return;
+    onChange(
+      trimSegment(segment, edge === 'startTime' ? 'start' : 'end', value, Infinity),
+      { label: 'Retime segment', coalesceKey: `inspector:${segmentIndex}:${edge}` }
+    );
+  };
+
+  // Old timings would keep showing the old words, so they are spread over
+  // the new text instead. Syllables cannot be guessed and are dropped.
+  const setText = (text: string) =>
+    update(
+      segment.words || segment.syllables
+        ? {
+            text,
+            words: distributeWordTimings(text, segment.startTime, segment.endTime),
+            syllables: undefined,
+          }
+        : { text },
+      'Edit text',
+      'text'
+    );
+
+  return (
+    // Non-modal so the preview and timeline stay usable while editing.
+    <Sheet open={open} onOpenChange={onOpenChange} modal={false}>
+      <SheetContent
+        side="left"
+        className="flex flex-col p-0"
+        onInteractOutside={(e) => e.preventDefault()}
+      >
+        <SheetHeader className="px-6 pt-6">
+          <SheetTitle className="font-headline">
+            Segment {segmentIndex !== null ? segmentIndex + 1 : ''}
+          </SheetTitle>
+          <SheetDescription>
+            Edit the text, emotion and animations. Changes show in the preview
+            right away.
+          </SheetDescription>
+        </SheetHeader>
+        <ScrollArea className="flex-1 px-6 pb-6">
+          <div className="space-y-6 pt-2">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="segment-start">Start (s)</Label>
+                <Input
+                  id="segment-start"
+                  type="number"
+                  step={0.01}
+                  min={0}
+                  value={segment.startTime}
+                  onChange={(e) => setTime('startTime', parseFloat(e.target.value))}
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="segment-end">End (s)</Label>
+                <Input
+                  id="segment-end"
+                  type="number"
+                  step={0.01}
+                  min={0}
+                  value={segment.endTime}
+                  onChange={(e) => setTime('endTime', parseFloat(e.target.value))}
+                  className="mt-2"
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="segment-text">Text</Label>
+              <Textarea
+                id="segment-text"
+                value={segment.text}
+                onChange={(e) => setText(e.target.value)}
+                className="mt-2"
+              />
+              {(segment.words || segment.syllables) && (
+                <p className="mt-1 text-xs text-muted-foreground">
+                  Editing the text spreads the word timings evenly again.
+                </p>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor="segment-emotion">Emotion</Label>
+              <Select
+                value={segment.emotion}
+                onValueChange={(emotion) =>
+                  update({ emotion }, 'Change emotion')
+                }
+              >
+                <SelectTrigger id="segment-emotion" className="mt-2 capitalize">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {emotions.map((emotion) => (
+                    <SelectItem key={emotion} value={emotion} className="capitalize">
+                      {emotion}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-3">
+              <Label>Animations</Label>
+              {segment.animations.length === 0 && (
+                <p className="text-sm text-muted-foreground">No animations.</p>
+              )}
+              {segment.animations.map((id, index) => {
+                const definition = getAnimation(id);
+                const params = definition
+                  ? resolveAnimationParams(definition, segment.animationParams?.[id])
+                  : {};
+                return (
+                  <div key={id} className="space-y-3 rounded-md border p-3">
+                    <div className="flex items-center gap-2">
+                      <span className="flex-1 text-sm font-medium">
+                        {definition?.name ?? id}
+                      </span>
+                      {definition && (
+                        <Badge variant="secondary">
+                          {CATEGORY_LABELS[definition.category]}
+                        </Badge>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => moveAnimation(index, -1)}
+                        disabled={index === 0}
+                        aria-label="Move up"
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => moveAnimation(index, 1)}
+                        disabled={index === segment.animations.length - 1}
+                        aria-label="Move down"
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => removeAnimation(id)}
+                        aria-label="Remove animation"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    {definition?.parameters.map((parameter) => (
+                      <div key={parameter.id} className="space-y-2">
+                        <div className="flex justify-between text-xs text-muted-foreground">
+                          <span>{parameter.label}</span>
+                          <span className="font-mono">
+                            {params[parameter.id]}
+                            {parameter.unit}
+                          </span>
+                        </div>
+                        <Slider
+                          value={[params[parameter.id]]}
+                          min={parameter.min}
+                          max={parameter.max}
+                          step={parameter.step}
+                          onValueChange={([value]) =>
+                            setParam(id, parameter.id, value)
+                          }
+                        />
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+              {availableAnimations.length > 0 && (
+                <Select
+                  value=""
+                  onValueChange={(id) =>
+                    update(
+                      { animations: [...segment.animations, id] },
+                      'Add animation'
+                    )
+                  }
+                >
+                  <SelectTrigger aria-label="Add animation">
+                    <span className="flex items-center gap-2 text-muted-foreground">
+                      <Plus className="h-4 w-4" /> Add animation
+                    </span>
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableAnimations.map((definition) => (
+                      <SelectItem key={definition.id} value={definition.id}>
+                        {definition.name}
+                        <span className="ml-2 text-xs text-muted-foreground">
+                          {CATEGORY_LABELS[definition.category]}
+                        </span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <Label htmlFor="segment-region">Position</Label>
+              <div className="grid grid-cols-2 gap-4">
+                <Select
+                  value={position.region}
+                  onValueChange={(region) =>
+                    setPosition({ region: region as LayoutRegion }, 'Change region')
+                  }
+                >
+                  <SelectTrigger id="segment-region">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(LAYOUT_REGIONS).map(([id, { label }]) => (
+                      <SelectItem key={id} value={id}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  value={position.anchor}
+                  onValueChange={(anchor) =>
+                    anchor &&
+                    setPosition({ anchor: anchor as CaptionAnchor }, 'Change anchor')
+                  }
+                  disabled={!!position.point}
+                  aria-label="Anchor"
+                >
+                  {Object.entries(CAPTION_ANCHORS).map(([id, { label }]) => (
+                    <ToggleGroupItem key={id} value={id} size="sm" className="flex-1">
+                      {label}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              </div>
+              {position.point ? (
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className="text-muted-foreground">
+                    Placed at {position.point.x}%, {position.point.y}%
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={clearFreePosition}>
+                    Snap to region
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Drag the caption in the preview to place it anywhere.
+                </p>
+              )}
+              <div className="space-y-2">
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>Max width</span>
+                  <span className="font-mono">{position.maxWidth}%</span>
+                </div>
+                <Slider
+                  value={[position.maxWidth]}
+                  min={10}
+                  max={100}
+                  step={1}
+                  onValueChange={([maxWidth]) =>
+                    setPosition({ maxWidth }, 'Change max width', 'maxWidth')
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>Rotation</span>
+                  <span className="font-mono">{position.rotation}°</span>
+                </div>
+                <Slider
+                  value={[position.rotation]}
+                  min={-180}
+                  max={180}
+                  step={1}
+                  onValueChange={([rotation]) =>
+                    setPosition({ rotation }, 'Rotate caption', 'rotation')
+                  }
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>Style</Label>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => update({ style: undefined }, 'Reset style')}
+                  disabled={!segment.style}
+                >
+                  Use project style
+                </Button>
+              </div>
+              <CaptionStyleEditor
+                style={segment.style ?? {}}
+                inherited={resolveCaptionStyle(baseStyle)}
+                onChange={(style, field) =>
+                  update({ style }, 'Change style', `style:${field}`)
+                }
+                fonts={fonts}
+                onUploadFont={onUploadFont}
+                idPrefix="segment-style"
+              />
+            </div>
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
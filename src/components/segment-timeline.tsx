@@ -0,0 +1,301 @@
+'use client';
+
+import { Combine, Pencil, Scissors } from 'lucide-react';
+import { useMemo, useRef, useState } from 'react';
+
+import type { AnimationSegment } from '@/app/types';
+import { Button } from '@/components/ui/button';
+import type { HistoryCommand } from '@/lib/history';
+import {
+  canSplitSegment,
+  mergeSegments,
+  moveSegment,
+  sortSegments,
+  splitSegment,
+  trimSegment,
+} from '@/lib/segments';
+import { cn } from '@/lib/utils';
+
+interface SegmentTimelineProps {
+  segments: AnimationSegment[];
+  duration: number;
+  currentTime: number;
+  selectedIndex: number | null;
+  disabled?: boolean;
+  onSelect: (index: number | null) => void;
+  onChange: (segments: AnimationSegment[], command: HistoryCommand) => void;
+  onSeek: (time: number) => void;
+  onEdit?: (index: number) => void;
+}
+
+type DragMode = 'move' | 'trim-start' | 'trim-end';
+
+interface DragState {
+  mode: DragMode;
+  index: number;
+  originX: number;
+  original: AnimationSegment;
+  segments: AnimationSegment[];
+  // Shared by every change of one gesture so it undoes as a single step.
+  coalesceKey: string;
+}
+
+const DRAG_LABELS: Record<DragMode, string> = {
+  move: 'Move segment',
+  'trim-start': 'Trim segment start',
+  'trim-end': 'Trim segment end',
+};
+
+const LANE_HEIGHT = 32;
+// Width of the grab area at each end of a block for trimming.
+const EDGE_HANDLE_PX = 8;
+
+// Greedily assigns overlapping segments to separate lanes so every block stays
+// visible and draggable.
+const assignLanes = (segments: AnimationSegment[]) => {
+  const laneEnds: number[] = [];
+  return segments.map((segment) => {
+    let lane = laneEnds.findIndex((end) => end <= segment.startTime);
+    if (lane === -1) lane = laneEnds.length;
+    laneEnds[lane] = segment.endTime;
+    return lane;
+  });
+};
+
+const formatTime = (seconds: number) =>
+  new Date(Math.max(seconds, 0) * 1000).toISOString().slice(14, 19);
+
+export function SegmentTimeline({
+  segments,
+  duration,
+  currentTime,
+  selectedIndex,
+  disabled,
+  onSelect,
+  onChange,
+  onEdit,
+  onSeek,
+}: SegmentTimelineProps) {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const lanes = useMemo(() => assignLanes(segments), [segments]);
+  const laneCount = Math.max(1, ...lanes.map((lane) => lane + 1));
+  const safeDuration = duration > 0 ? duration : 1;
+
+  const ticks = useMemo(() => {
+    const step = safeDuration > 120 ? 30 : safeDuration > 30 ? 10 : 5;
+    const result: number[] = [];
+    for (let t = 0; t <= safeDuration; t += step) result.push(t);
+    return result;
+  }, [safeDuration]);
+
+  const selected = selectedIndex !== null ? segments[selectedIndex] : undefined;
+  const splitTarget =
+    selected && canSplitSegment(selected, currentTime) ? selectedIndex : null;
+  const mergeTarget =
+    selectedIndex !== null && selectedIndex < segments.length - 1
+      ? selectedIndex
+      : null;
+
+  const pixelsToSeconds = (px: number) => {
+    const width = trackRef.current?.clientWidth || 1;
+    return (px / width) * safeDuration;
+  };
+
+  const handlePointerDown = (
+    e: React.PointerEvent<HTMLDivElement>,
+    index: number
+  ) => {
+    if (disabled) return;
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const offsetX = e.clientX - rect.left;
+    const mode: DragMode =
+      offsetX <= EDGE_HANDLE_PX
+        ? 'trim-start'
+        : offsetX >= rect.width - EDGE_HANDLE_PX
+        ? 'trim-end'
+        : 'move';
+    e.currentTarget.setPointerCapture(e.pointerId);
+    onSelect(index);
+    setDrag({
+      mode,
+      index,
+      originX: e.clientX,
+      original: segments[index],
+      segments,
+      coalesceKey: `drag:${index}:${e.timeStamp}`,
+    });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const delta = pixelsToSeconds(e.clientX - drag.originX);
+    const { original } = drag;
+    const updated =
+      drag.mode === 'move'
+        ? moveSegment(original, delta, safeDuration)
+        : drag.mode === 'trim-start'
+        ? trimSegment(original, 'start', original.startTime + delta, safeDuration)
+        : trimSegment(original, 'end', original.endTime + delta, safeDuration);
+    onChange(
+      drag.segments.map((s, i) => (i === drag.index ? updated : s)),
+      { label: DRAG_LABELS[drag.mode], coalesceKey: drag.coalesceKey }
+    );
+  };
+
+  // Also handles pointercancel, e.g. when the browser takes over a touch
+  // gesture, so the drag never outlives the pointer.
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+    const moved = segments[drag.index];
+    if (moved === drag.original) {
+      setDrag(null);
+      return;
+    }
+    // Re-sort once the drag is over so the moved block keeps its selection.
+    const sorted = sortSegments(segments);
+    setDrag(null);
+    onChange(sorted, {
+      label: DRAG_LABELS[drag.mode],
+      coalesceKey: drag.coalesceKey,
+    });
+    onSelect(sorted.indexOf(moved));
+  };
+
+  const handleTrackClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (disabled || !trackRef.current) return;
+    const rect = trackRef.current.getBoundingClientRect();
+    onSelect(null);
+    onSeek(pixelsToSeconds(e.clientX - rect.left));
+  };
+
+  const handleSplit = () => {
+    if (splitTarget === null) return;
+    const [first, second] = splitSegment(segments[splitTarget], currentTime);
+    onChange(
+      [
+        ...segments.slice(0, splitTarget),
+        first,
+        second,
+        ...segments.slice(splitTarget + 1),
+      ],
+      { label: 'Split segment' }
+    );
+    onSelect(splitTarget + 1);
+  };
+
+  const handleMerge = () => {
+    if (mergeTarget === null) return;
+    const merged = mergeSegments(segments[mergeTarget], segments[mergeTarget + 1]);
+    onChange(
+      [
+        ...segments.slice(0, mergeTarget),
+        merged,
+        ...segments.slice(mergeTarget + 2),
+      ],
+      { label: 'Merge segments' }
+    );
+    onSelect(mergeTarget);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Timeline</span>
+        <div className="flex items-center gap-1">
+          {onEdit && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => selectedIndex !== null && onEdit(selectedIndex)}
+              disabled={disabled || selectedIndex === null}
+            >
+              <Pencil className="mr-2 h-4 w-4" />
+              Edit
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleSplit}
+            disabled={disabled || splitTarget === null}
+          >
+            <Scissors className="mr-2 h-4 w-4" />
+            Split
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleMerge}
+            disabled={disabled || mergeTarget === null}
+          >
+            <Combine className="mr-2 h-4 w-4" />
+            Merge Next
+          </Button>
+        </div>
+      </div>
+      <div className="relative select-none rounded-md border bg-muted/40 px-0 pb-2">
+        <div className="relative h-5 text-[10px] font-mono text-muted-foreground">
+          {ticks.map((tick) => (
+            <span
+              key={tick}
+              className="absolute top-0.5 -translate-x-1/2"
+              style={{ left: `${(tick / safeDuration) * 100}%` }}
+            >
+              {formatTime(tick)}
+            </span>
+          ))}
+        </div>
+        <div
+          ref={trackRef}
+          className="relative cursor-pointer"
+          style={{ height: laneCount * LANE_HEIGHT }}
+          onClick={handleTrackClick}
+        >
+          {segments.map((segment, index) => (
+            <div
+              key={index}
+              role="button"
+              aria-label={segment.text}
+              title={segment.text}
+              className={cn(
+                'absolute flex items-center overflow-hidden rounded border px-2 text-xs',
+                'cursor-grab touch-none bg-primary/30 border-primary/60',
+                index === selectedIndex &&
+                  'bg-accent/40 border-accent ring-1 ring-accent',
+                drag?.index === index && 'cursor-grabbing'
+              )}
+              style={{
+                left: `${(segment.startTime / safeDuration) * 100}%`,
+                width: `${
+                  ((segment.endTime - segment.startTime) / safeDuration) * 100
+                }%`,
+                top: lanes[index] * LANE_HEIGHT + 2,
+                height: LANE_HEIGHT - 4,
+              }}
+              onClick={(e) => e.stopPropagation()}
+              onDoubleClick={() => !disabled && onEdit?.(index)}
+              onPointerDown={(e) => handlePointerDown(e, index)}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            >
+              <span className="pointer-events-none truncate">{segment.text}</span>
+              <span className="absolute inset-y-0 left-0 w-2 cursor-ew-resize" />
+              <span className="absolute inset-y-0 right-0 w-2 cursor-ew-resize" />
+            </div>
+          ))}
+          <div
+            className="pointer-events-none absolute inset-y-0 w-px bg-destructive"
+            style={{ left: `${(currentTime / safeDuration) * 100}%` }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
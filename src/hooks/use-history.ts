@@ -0,0 +1,70 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+import {
+  createHistory,
+  executeCommand,
+  getRedoLabel,
+  getUndoLabel,
+  redo as redoHistory,
+  undo as undoHistory,
+  type HistoryCommand,
+} from '@/lib/history';
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    target.tagName === 'INPUT' ||
+    target.tagName === 'TEXTAREA' ||
+    target.tagName === 'SELECT');
+
+export function useHistory<T>(initial: T) {
+  const [state, setState] = useState(() => createHistory(initial));
+
+  const execute = useCallback((next: T, command: HistoryCommand) => {
+    setState((current) => executeCommand(current, next, command));
+  }, []);
+
+  // Replaces the value and drops the history, e.g. when opening a project.
+  const reset = useCallback((value: T) => {
+    setState(createHistory(value));
+  }, []);
+
+  const undo = useCallback(() => setState(undoHistory), []);
+  const redo = useCallback(() => setState(redoHistory), []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      // Leave native undo to text fields.
+      if (isEditableTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+      } else if (key === 'y' && !e.shiftKey) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  return {
+    present: state.present,
+    execute,
+    reset,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+    undoLabel: getUndoLabel(state),
+    redoLabel: getRedoLabel(state),
+  };
+}
@@ -0,0 +1,138 @@
+import type { SubtitleCue, TimedText } from '@/app/types';
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+// Speech shorter than this is treated as noise (clicks, breaths).
+const MIN_SPEECH_DURATION = 0.15;
+
+const roundTime = (time: number) => Math.round(time * 1000) / 1000;
+
+/** The parts of [0, duration] not covered by `silences`. */
+export function getSpeechRegions(
+  silences: TimeRange[],
+  duration: number
+): TimeRange[] {
+  const regions: TimeRange[] = [];
+  let cursor = 0;
+  for (const silence of [...silences].sort((a, b) => a.start - b.start)) {
+    if (silence.start - cursor >= MIN_SPEECH_DURATION) {
+      regions.push({ start: cursor, end: Math.min(silence.start, duration) });
+    }
+    cursor = Math.max(cursor, silence.end);
+  }
+  if (duration - cursor >= MIN_SPEECH_DURATION) {
+    regions.push({ start: cursor, end: duration });
+  }
+  return regions;
+}
+
+/** Splits pasted plain text into one subtitle line per non-empty line. */
+export function splitTextLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+// "Speech time" counts only seconds inside speech regions, so silence takes
+// up no room when text is spread over the audio.
+function createSpeechClock(regions: TimeRange[]) {
+  const offsets: number[] = [];
+  let total = 0;
+  for (const region of regions) {
+    offsets.push(total);
+    total += region.end - region.start;
+  }
+
+  // At a region edge a start belongs to the next region and an end to the
+  // previous one, so lines never begin or finish inside a silence.
+  const toMediaTime = (speechTime: number, edge: 'start' | 'end') => {
+    for (let i = 0; i < regions.length; i++) {
+      const regionEnd = offsets[i] + regions[i].end - regions[i].start;
+      const inside =
+        edge === 'start' ? speechTime < regionEnd : speechTime <= regionEnd;
+      if (inside || i === regions.length - 1) {
+        return regions[i].start + Math.max(speechTime - offsets[i], 0);
+      }
+    }
+    return 0;
+  };
+
+  // Speech-time positions of the silences between regions.
+  const gaps = offsets.slice(1);
+
+  return { total, gaps, toMediaTime };
+}
+
+const weightOf = (text: string) => text.replace(/\s+/g, '').length || 1;
+
+/**
+ * Lays `lines` over the detected speech. Each line gets speech time in
+ * proportion to its length, and line breaks snap to a nearby silence when
+ * there is one, which is where singers and speakers usually pause. Word
+ * timings are spread the same way inside each line.
+ */
+export function alignLines(lines: string[], regions: TimeRange[]): SubtitleCue[] {
+  if (lines.length === 0 || regions.length === 0) return [];
+  const clock = createSpeechClock(regions);
+  const weights = lines.map(weightOf);
+
+  // Boundaries between lines, in speech time. Each line is sized from the
+  // speech left after the previous boundary, and its end snaps to the
+  // closest silence within half of the shorter of it and the next line.
+  const boundaries: number[] = [0];
+  let remainingWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  let nextGap = 0;
+  for (let i = 0; i < lines.length - 1; i++) {
+    const previous = boundaries[i];
+    const remaining = clock.total - previous;
+    const ideal = previous + (remaining * weights[i]) / remainingWeight;
+    const tolerance =
+      Math.min(ideal - previous, (remaining * weights[i + 1]) / remainingWeight) / 2;
+    let snapped = -1;
+    for (let g = nextGap; g < clock.gaps.length; g++) {
+      const distance = Math.abs(clock.gaps[g] - ideal);
+      if (clock.gaps[g] <= previous || distance > tolerance) {
+        if (clock.gaps[g] > ideal) break;
+        continue;
+      }
+      if (snapped === -1 || distance < Math.abs(clock.gaps[snapped] - ideal)) {
+        snapped = g;
+      }
+    }
+    const boundary = snapped === -1 ? ideal : clock.gaps[snapped];
+    if (snapped !== -1) nextGap = snapped + 1;
+    boundaries.push(boundary);
+    remainingWeight -= weights[i];
+  }
+  boundaries.push(clock.total);
+
+  return lines.map((text, i) => {
+    const speechStart = boundaries[i];
+    const speechEnd = boundaries[i + 1];
+    const words = text.split(' ');
+    const lineWeight = words.reduce((sum, word) => sum + weightOf(word), 0);
+    let wordCursor = 0;
+    const timedWords: TimedText[] = words.map((word) => {
+      const wordStart =
+        speechStart + ((speechEnd - speechStart) * wordCursor) / lineWeight;
+      wordCursor += weightOf(word);
+      const wordEnd =
+        speechStart + ((speechEnd - speechStart) * wordCursor) / lineWeight;
+      return {
+        text: word,
+        startTime: roundTime(clock.toMediaTime(wordStart, 'start')),
+        endTime: roundTime(clock.toMediaTime(wordEnd, 'end')),
+      };
+    });
+    return {
+      text,
+      startTime: roundTime(clock.toMediaTime(speechStart, 'start')),
+      endTime: roundTime(clock.toMediaTime(speechEnd, 'end')),
+      words: timedWords,
+    };
+  });
+}
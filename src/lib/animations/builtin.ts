@@ -0,0 +1,196 @@
+import {
+  delayParameter,
+  durationParameter,
+  staggerParameter,
+  type AnimationDefinition,
+  type AnimationParams,
+} from './registry';
+
+const EASE_OUT = 'cubic-bezier(0.25, 0.46, 0.45, 0.94)';
+
+// Start, middle and end of an effect in milliseconds, as ASS times it.
+function getAssTimes({ duration, delay = 0 }: AnimationParams) {
+  const start = Math.round(delay * 1000);
+  const end = start + Math.round(duration * 1000);
+  return { start, middle: Math.round((start + end) / 2), end };
+}
+
+export const BUILTIN_ANIMATIONS: AnimationDefinition[] = [
+  {
+    id: 'fadeIn',
+    name: 'Fade In',
+    description: 'Fades the text in while rising slightly.',
+    category: 'segment',
+    emotions: ['neutral', 'sad', 'calm'],
+    keyframes: 'fadeIn',
+    easing: EASE_OUT,
+    fillMode: 'forwards',
+    parameters: [durationParameter(1.5), delayParameter],
+    toAss: (params) => {
+      const { start, end } = getAssTimes(params);
+      return `\\fade(255,0,0,${start},${end},${end},${end})`;
+    },
+  },
+  {
+    id: 'slide',
+    name: 'Slide In',
+    description: 'Slides the text in from the left.',
+    category: 'segment',
+    emotions: ['energetic', 'happy'],
+    keyframes: 'slideIn',
+    easing: EASE_OUT,
+    fillMode: 'forwards',
+    parameters: [durationParameter(1.5), delayParameter],
+    toAss: (params, { x, y }) => {
+      const { start, end } = getAssTimes(params);
+      return `\\move(${x - 100},${y},${x},${y},${start},${end})`;
+    },
+  },
+  {
+    id: 'zoom-in',
+    name: 'Zoom In',
+    description: 'Scales the text up into place.',
+    category: 'segment',
+    emotions: ['happy', 'energetic'],
+    keyframes: 'zoomIn',
+    easing: 'cubic-bezier(0.165, 0.84, 0.44, 1)',
+    fillMode: 'forwards',
+    parameters: [durationParameter(1.2), delayParameter],
+    toAss: (params) => {
+      const { start, end } = getAssTimes(params);
+      return `\\fscx80\\fscy80\\t(${start},${end},\\fscx100\\fscy100)`;
+    },
+  },
+  {
+    id: 'blur-in',
+    name: 'Blur In',
+    description: 'Brings the text into focus from a blur.',
+    category: 'segment',
+    emotions: ['calm', 'sad'],
+    keyframes: 'blurIn',
+    easing: 'ease',
+    fillMode: 'forwards',
+    parameters: [durationParameter(1.5), delayParameter],
+    toAss: (params) => {
+      const { start, end } = getAssTimes(params);
+      return `\\blur10\\t(${start},${end},\\blur0)`;
+    },
+  },
+  {
+    id: 'flash',
+    name: 'Flash',
+    description: 'Blinks the text once for emphasis.',
+    category: 'segment',
+    emotions: ['energetic', 'angry'],
+    keyframes: 'flash',
+    easing: 'ease-in-out',
+    fillMode: 'forwards',
+    parameters: [durationParameter(0.5), delayParameter],
+    toAss: (params) => {
+      const { start, middle, end } = getAssTimes(params);
+      return `\\t(${start},${middle},\\alpha&HE6&)\\t(${middle},${end},\\alpha&H00&)`;
+    },
+  },
+  {
+    id: 'shake',
+    name: 'Shake',
+    description: 'Shakes the text side to side.',
+    category: 'segment',
+    emotions: ['angry', 'energetic'],
+    keyframes: 'shake',
+    easing: 'cubic-bezier(0.36, 0.07, 0.19, 0.97)',
+    fillMode: 'both',
+    parameters: [durationParameter(0.8), delayParameter],
+    toAss: (params) => {
+      const { start, middle, end } = getAssTimes(params);
+      return `\\t(${start},${middle},\\frz2)\\t(${middle},${end},\\frz0)`;
+    },
+  },
+  {
+    id: 'glow-text',
+    name: 'Glow',
+    description: 'Pulses a soft coloured glow around the text.',
+    category: 'segment',
+    emotions: ['calm', 'happy'],
+    keyframes: 'glow',
+    easing: 'ease-in-out',
+    iterations: 'infinite',
+    direction: 'alternate',
+    parameters: [durationParameter(2)],
+    // A steady glow; ASS cannot loop a transform.
+    toAss: () => '\\blur3\\3c&HF36F4F&',
+  },
+  {
+    id: 'gradient-text',
+    name: 'Gradient',
+    description: 'Fills the text with a moving colour gradient.',
+    category: 'segment',
+    emotions: ['energetic', 'happy'],
+    keyframes: 'gradientShift',
+    easing: 'linear',
+    iterations: 'infinite',
+    className: 'animation-gradient-text',
+    parameters: [durationParameter(3)],
+  },
+  {
+    id: 'karaoke-fill',
+    name: 'Karaoke Fill',
+    description: 'Fills each syllable or word left to right as it is spoken.',
+    category: 'segment',
+    emotions: [],
+    keyframes: 'karaoke',
+    easing: 'linear',
+    fillMode: 'both',
+    spansSegment: true,
+    timed: 'syllable',
+    className: 'animation-karaoke-fill',
+    parameters: [],
+  },
+  {
+    id: 'karaoke-words',
+    name: 'Word Highlight',
+    description: 'Highlights each word the moment it is spoken.',
+    category: 'segment',
+    emotions: [],
+    keyframes: 'karaokeHighlight',
+    easing: 'step-start',
+    fillMode: 'forwards',
+    spansSegment: true,
+    timed: 'word',
+    className: 'animation-karaoke-highlight',
+    parameters: [],
+  },
+  {
+    id: 'popWords',
+    name: 'Pop Words',
+    description: 'Pops each word in one after another.',
+    category: 'word',
+    emotions: ['happy', 'energetic'],
+    keyframes: 'zoomIn',
+    easing: 'cubic-bezier(0.175, 0.885, 0.32, 1.275)',
+    fillMode: 'both',
+    parameters: [durationParameter(0.4), delayParameter, staggerParameter(0.15)],
+  },
+  {
+    id: 'bounceLetters',
+    name: 'Bounce Letters',
+    description: 'Bounces each letter in turn.',
+    category: 'letter',
+    emotions: ['energetic', 'happy'],
+    keyframes: 'bounce',
+    easing: EASE_OUT,
+    fillMode: 'both',
+    parameters: [durationParameter(0.7), delayParameter, staggerParameter(0.05)],
+  },
+  {
+    id: 'rainText',
+    name: 'Rain Letters',
+    description: 'Drops each letter in from above like rain.',
+    category: 'letter',
+    emotions: ['sad'],
+    keyframes: 'rain',
+    easing: 'ease-out',
+    fillMode: 'both',
+    parameters: [durationParameter(1), delayParameter, staggerParameter(0.05)],
+  },
+];
@@ -0,0 +1,39 @@
+import { BUILTIN_ANIMATIONS } from './builtin';
+import { listAnimations, registerAnimation } from './registry';
+
+BUILTIN_ANIMATIONS.forEach(registerAnimation);
+
+/**
+ * The allowed-animation section of the emotion prompt, generated from the
+ * registry so the model only suggests effects the renderer implements.
+ */
+export function describeAnimationsForPrompt(): string {
+  return listAnimations()
+    .map((definition) => {
+      const suits =
+        definition.emotions.length > 0
+          ? ` Suits: ${definition.emotions.join(', ')}.`
+          : '';
+      return `- ${definition.id}: ${definition.description}${suits}`;
+    })
+    .join('\n');
+}
+
+export {
+  getAnimation,
+  getAnimationsForEmotion,
+  isRegisteredAnimation,
+  listAnimations,
+  registerAnimation,
+  resolveAnimationParams,
+  type AnimationCategory,
+  type AnimationDefinition,
+  type AnimationParameter,
+  type AnimationParams,
+} from './registry';
+export {
+  buildAnimationStyle,
+  getAnimationDefinitions,
+  getSplitAnimation,
+  getTimedAnimation,
+} from './style';
@@ -0,0 +1,137 @@
+import type { CSSProperties } from 'react';
+
+export type AnimationCategory = 'segment' | 'word' | 'letter';
+
+export interface AnimationParameter {
+  id: string;
+  label: string;
+  defaultValue: number;
+  min: number;
+  max: number;
+  step: number;
+  unit?: string;
+}
+
+export type AnimationParams = Record<string, number>;
+
+export interface AnimationDefinition {
+  id: string;
+  name: string;
+  description: string;
+  /**
+   * What the effect is applied to: the whole segment, or each word or letter
+   * in turn (staggered by the `stagger` parameter).
+   */
+  category: AnimationCategory;
+  /** Emotions this effect suits, used for suggestions and the AI prompt. */
+  emotions: string[];
+  /** Name of the `@keyframes` rule in globals.css that drives the effect. */
+  keyframes?: string;
+  easing?: string;
+  fillMode?: 'none' | 'forwards' | 'backwards' | 'both';
+  iterations?: number | 'infinite';
+  direction?: 'normal' | 'alternate';
+  /** Runs for the whole segment instead of a fixed `duration` parameter. */
+  spansSegment?: boolean;
+  /**
+   * Runs once per timed word or syllable, starting at that unit's timestamp
+   * and lasting as long as it, instead of once for the whole segment.
+   */
+  timed?: 'word' | 'syllable';
+  /** Static styles the keyframes rely on (e.g. background-clip for fills). */
+  className?: string;
+  parameters: AnimationParameter[];
+  /** JS implementation: inline styles derived from the resolved parameters. */
+  getStyle?: (params: AnimationParams) => CSSProperties;
+  /**
+   * ASS override tags approximating the effect for the subtitle export, for
+   * a caption whose alignment point is `point`. Effects without it are
+   * dropped from the export.
+   */
+  toAss?: (params: AnimationParams, point: { x: number; y: number }) => string;
+}
+
+export const durationParameter = (defaultValue: number): AnimationParameter => ({
+  id: 'duration',
+  label: 'Duration',
+  defaultValue,
+  min: 0.1,
+  max: 5,
+  step: 0.1,
+  unit: 's',
+});
+
+export const delayParameter: AnimationParameter = {
+  id: 'delay',
+  label: 'Delay',
+  defaultValue: 0,
+  min: 0,
+  max: 5,
+  step: 0.1,
+  unit: 's',
+};
+
+export const staggerParameter = (defaultValue: number): AnimationParameter => ({
+  id: 'stagger',
+  label: 'Stagger',
+  defaultValue,
+  min: 0,
+  max: 0.5,
+  step: 0.01,
+  unit: 's',
+});
+
+const registry = new Map<string, AnimationDefinition>();
+
+export function registerAnimation(definition: AnimationDefinition) {
+  registry.set(definition.id, definition);
+}
+
+export function getAnimation(id: string): AnimationDefinition | undefined {
+  return registry.get(id);
+}
+
+export function isRegisteredAnimation(id: string): boolean {
+  return registry.has(id);
+}
+
+export function listAnimations(): AnimationDefinition[] {
+  return [...registry.values()];
+}
+
+export function resolveAnimationParams(
+  definition: AnimationDefinition,
+  overrides: AnimationParams = {}
+): AnimationParams {
+  return Object.fromEntries(
+    definition.parameters.map((parameter) => {
+      const value = overrides[parameter.id];
+      return [
+        parameter.id,
+        typeof value === 'number' && isFinite(value)
+          ? Math.min(parameter.max, Math.max(parameter.min, value))
+          : parameter.defaultValue,
+      ];
+    })
+  );
+}
+
+/**
+ * Suggests animations for an emotion from the registered affinities: every
+ * matching segment effect plus at most one word/letter effect, since only one
+ * way of splitting the text can be shown at a time.
+ */
+export function getAnimationsForEmotion(emotion: string, limit = 3): string[] {
+  const suggestions: string[] = [];
+  let hasSplitEffect = false;
+  for (const definition of registry.values()) {
+    if (suggestions.length >= limit) break;
+    if (!definition.emotions.includes(emotion)) continue;
+    if (definition.category !== 'segment') {
+      if (hasSplitEffect) continue;
+      hasSplitEffect = true;
+    }
+    suggestions.push(definition.id);
+  }
+  return suggestions;
+}
@@ -0,0 +1,108 @@
+import type { CSSProperties } from 'react';
+
+import {
+  getAnimation,
+  resolveAnimationParams,
+  type AnimationCategory,
+  type AnimationDefinition,
+  type AnimationParams,
+} from './registry';
+
+interface AnimationStyleOptions {
+  /** Per-animation parameter overrides, keyed by animation id. */
+  params?: Record<string, AnimationParams>;
+  /** Position of the word or letter for staggered effects. */
+  index?: number;
+  /** Used by effects that span the whole segment (e.g. karaoke-fill). */
+  segmentDuration: number;
+  /** Extra seconds added to every delay, e.g. a syllable's start. */
+  offset?: number;
+  /**
+   * Seconds of the segment already shown. Animations start this far in, via
+   * a negative delay, rather than from their first frame.
+   */
+  elapsed?: number;
+  /** Holds the animations at `elapsed`, e.g. for exporting a frame. */
+  paused?: boolean;
+}
+
+export function getAnimationDefinitions(
+  ids: string[],
+  categories: AnimationCategory[]
+): AnimationDefinition[] {
+  return ids
+    .map((id) => getAnimation(id))
+    .filter(
+      (definition): definition is AnimationDefinition =>
+        !!definition && categories.includes(definition.category)
+    );
+}
+
+/**
+ * The word or letter effect that decides how the text is split, if any. Only
+ * the first one listed applies.
+ */
+export function getSplitAnimation(ids: string[]): AnimationDefinition | undefined {
+  return getAnimationDefinitions(ids, ['word', 'letter'])[0];
+}
+
+/**
+ * The effect that runs per timed word or syllable, if any. Only the first one
+ * listed applies, and it takes precedence over word and letter splitting.
+ */
+export function getTimedAnimation(ids: string[]): AnimationDefinition | undefined {
+  return ids
+    .map((id) => getAnimation(id))
+    .find((definition) => definition?.timed);
+}
+
+/**
+ * Composes the given animations into one `animation` declaration so that
+ * several effects on the same element run together rather than overriding
+ * each other.
+ */
+export function buildAnimationStyle(
+  definitions: AnimationDefinition[],
+  {
+    params = {},
+    index = 0,
+    segmentDuration,
+    offset = 0,
+    elapsed = 0,
+    paused = false,
+  }: AnimationStyleOptions
+): { className: string; style: CSSProperties } {
+  const animations: string[] = [];
+  const classNames: string[] = [];
+  let style: CSSProperties = {};
+
+  for (const definition of definitions) {
+    const resolved = resolveAnimationParams(definition, params[definition.id]);
+    if (definition.className) classNames.push(definition.className);
+    if (definition.getStyle) style = { ...style, ...definition.getStyle(resolved) };
+    if (!definition.keyframes) continue;
+
+    const duration = definition.spansSegment
+      ? Math.max(segmentDuration, 0.01)
+      : resolved.duration ?? 1;
+    const delay =
+      offset + (resolved.delay ?? 0) + index * (resolved.stagger ?? 0) - elapsed;
+    animations.push(
+      [
+        definition.keyframes,
+        `${duration}s`,
+        definition.easing ?? 'ease',
+        `${delay}s`,
+        definition.iterations ?? 1,
+        definition.direction ?? 'normal',
+        definition.fillMode ?? 'none',
+        paused ? 'paused' : 'running',
+      ].join(' ')
+    );
+  }
+
+  if (animations.length > 0) {
+    style = { ...style, animation: animations.join(', ') };
+  }
+  return { className: classNames.join(' '), style };
+}
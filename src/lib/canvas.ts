@@ -0,0 +1,60 @@
+import type { AspectRatio, FitMode } from '@/app/types';
+
+export const ASPECT_RATIO_PRESETS: { value: AspectRatio; label: string }[] = [
+  { value: '16:9', label: '16:9 Landscape' },
+  { value: '9:16', label: '9:16 Vertical' },
+  { value: '1:1', label: '1:1 Square' },
+  { value: '4:5', label: '4:5 Portrait' },
+  { value: '21:9', label: '21:9 Cinema' },
+];
+
+export function parseAspectRatio(aspectRatio: AspectRatio): {
+  width: number;
+  height: number;
+} {
+  const [width, height] = aspectRatio.split(':').map(Number);
+  return width > 0 && height > 0 ? { width, height } : { width: 16, height: 9 };
+}
+
+export const isPortrait = (aspectRatio: AspectRatio) => {
+  const { width, height } = parseAspectRatio(aspectRatio);
+  return height > width;
+};
+
+export const FIT_MODES: Record<FitMode, { label: string }> = {
+  fit: { label: 'Fit' },
+  letterbox: { label: 'Letterbox (full width)' },
+  pillarbox: { label: 'Pillarbox (full height)' },
+  crop: { label: 'Crop to fill' },
+};
+
+/** Insets from each edge, in percent of the canvas. */
+export interface SafeAreaInsets {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+// Guides are shown over the preview only and never rendered. The platform
+// zones approximate where the app's own buttons and captions sit.
+export const SAFE_AREA_GUIDES = {
+  'action-safe': {
+    label: 'Action safe (93%)',
+    insets: { top: 3.5, right: 3.5, bottom: 3.5, left: 3.5 },
+  },
+  'title-safe': {
+    label: 'Title safe (90%)',
+    insets: { top: 5, right: 5, bottom: 5, left: 5 },
+  },
+  tiktok: {
+    label: 'TikTok UI',
+    insets: { top: 8, right: 12, bottom: 20, left: 4 },
+  },
+  reels: {
+    label: 'Instagram Reels UI',
+    insets: { top: 12, right: 10, bottom: 22, left: 4 },
+  },
+} satisfies Record<string, { label: string; insets: SafeAreaInsets }>;
+
+export type SafeAreaGuideId = keyof typeof SAFE_AREA_GUIDES;
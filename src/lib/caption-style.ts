@@ -0,0 +1,120 @@
+import type { CSSProperties } from 'react';
+
+import type { SegmentStyle } from '@/app/types';
+
+// Style lengths are in pixels at this canvas size (its shorter side).
+export const REFERENCE_CANVAS_SIZE = 1080;
+
+/** A style with every property the renderers need filled in. */
+export type ResolvedCaptionStyle = Required<
+  Pick<
+    SegmentStyle,
+    | 'fontFamily'
+    | 'fontSize'
+    | 'fontWeight'
+    | 'color'
+    | 'outlineWidth'
+    | 'shadows'
+    | 'letterSpacing'
+    | 'lineHeight'
+    | 'italic'
+  >
+> &
+  Pick<SegmentStyle, 'gradient' | 'karaokeColor' | 'outlineColor' | 'background'>;
+
+// The look captions had before they were configurable.
+export const DEFAULT_CAPTION_STYLE: ResolvedCaptionStyle = {
+  fontFamily: 'Space Grotesk',
+  fontSize: 72,
+  fontWeight: 700,
+  color: '#ffffff',
+  outlineWidth: 0,
+  shadows: [{ x: 0, y: 4, blur: 4, color: 'rgba(0, 0, 0, 0.8)' }],
+  letterSpacing: 0,
+  lineHeight: 1.2,
+  italic: false,
+};
+
+/**
+ * Merges styles over the defaults, later ones winning: typically the
+ * project's style, then the segment's own.
+ */
+export function resolveCaptionStyle(
+  ...styles: (SegmentStyle | undefined)[]
+): ResolvedCaptionStyle {
+  const resolved: ResolvedCaptionStyle = { ...DEFAULT_CAPTION_STYLE };
+  for (const style of styles) {
+    if (!style) continue;
+    const { bold, ...rest } = style;
+    // `bold` comes from ASS imports; an explicit weight takes precedence.
+    if (bold !== undefined && style.fontWeight === undefined) {
+      resolved.fontWeight = bold ? 700 : 400;
+    }
+    for (const [key, value] of Object.entries(rest)) {
+      if (value !== undefined) (resolved as Record<string, unknown>)[key] = value;
+    }
+  }
+  return resolved;
+}
+
+/**
+ * A length in style pixels as CSS that scales with the canvas. The caption
+ * layer must be a size container (`container-type: size`).
+ */
+export const scaledLength = (pixels: number) =>
+  `calc(${pixels} * 100cqmin / ${REFERENCE_CANVAS_SIZE})`;
+
+/** CSS for a caption's text and, if it has one, its background box. */
+export function getCaptionCss(style: ResolvedCaptionStyle): {
+  text: CSSProperties;
+  fill: CSSProperties;
+  box: CSSProperties | null;
+} {
+  const text = {
+    fontFamily: `"${style.fontFamily}", sans-serif`,
+    fontSize: scaledLength(style.fontSize),
+    fontWeight: style.fontWeight,
+    fontStyle: style.italic ? 'italic' : 'normal',
+    color: style.color,
+    letterSpacing: `${style.letterSpacing}em`,
+    lineHeight: style.lineHeight,
+    '--karaoke-highlight-color': style.color,
+    ...(style.karaokeColor && { '--karaoke-base-color': style.karaokeColor }),
+    ...(style.shadows.length > 0 && {
+      textShadow: style.shadows
+        .map(
+          (shadow) =>
+            `${scaledLength(shadow.x)} ${scaledLength(shadow.y)} ${scaledLength(shadow.blur)} ${shadow.color}`
+        )
+        .join(', '),
+    }),
+    // The stroke is centred on the glyph edge and painted under the fill, so
+    // twice the width leaves `outlineWidth` visible outside, as in ASS.
+    ...(style.outlineColor &&
+      style.outlineWidth > 0 && {
+        WebkitTextStroke: `${scaledLength(style.outlineWidth * 2)} ${style.outlineColor}`,
+        paintOrder: 'stroke fill',
+      }),
+    ...(style.background && {
+      padding: `${scaledLength(style.background.paddingY)} ${scaledLength(style.background.paddingX)}`,
+    }),
+  } as CSSProperties;
+
+  const fill: CSSProperties = style.gradient
+    ? {
+        backgroundImage: `linear-gradient(${style.gradient.angle}deg, ${style.gradient.from}, ${style.gradient.to})`,
+        WebkitBackgroundClip: 'text',
+        backgroundClip: 'text',
+        WebkitTextFillColor: 'transparent',
+      }
+    : {};
+
+  const box: CSSProperties | null = style.background
+    ? {
+        backgroundColor: style.background.color,
+        borderRadius: scaledLength(style.background.radius),
+      }
+    : null;
+
+  return { text, fill, box };
+}
@@ -0,0 +1,6 @@
+import path from 'path';
+
+// Server-only. Where user data that outlives a render (uploaded fonts,
+// shared presets) is kept.
+export const DATA_DIR =
+  process.env.AIVOS_DATA_DIR ?? path.join(process.cwd(), '.aivos');
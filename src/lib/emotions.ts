@@ -0,0 +1,41 @@
+import type { AnimationSegment, EmotionMapping } from '@/app/types';
+
+// Emotions the analyzers produce and the editor offers by default. Segments
+// may still carry any other label the AI comes up with.
+export const DEFAULT_EMOTIONS = [
+  'neutral',
+  'happy',
+  'sad',
+  'energetic',
+  'calm',
+  'angry',
+];
+
+// Animations each built-in emotion gets when generating, unless the user
+// edits the mapping. Neutral is left to the analyzer.
+export const DEFAULT_EMOTION_MAPPING: EmotionMapping = [
+  { emotion: 'happy', animations: ['zoom-in', 'popWords'] },
+  { emotion: 'sad', animations: ['blur-in', 'rainText'] },
+  { emotion: 'energetic', animations: ['slide', 'flash', 'bounceLetters'] },
+  { emotion: 'calm', animations: ['fadeIn', 'glow-text'] },
+  { emotion: 'angry', animations: ['shake', 'flash'] },
+];
+
+/**
+ * Applies the rule for the segment's emotion, if there is one. Styles and
+ * positions the segment already has (e.g. from an ASS file) win over the
+ * rule's.
+ */
+export function applyEmotionMapping(
+  segment: AnimationSegment,
+  mapping: EmotionMapping
+): AnimationSegment {
+  const rule = mapping.find((r) => r.emotion === segment.emotion.toLowerCase());
+  if (!rule) return segment;
+  return {
+    ...segment,
+    animations: rule.animations,
+    ...(rule.style && { style: { ...rule.style, ...segment.style } }),
+    ...(rule.position && { position: { ...rule.position, ...segment.position } }),
+  };
+}
@@ -0,0 +1,124 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { DATA_DIR } from './data-dir';
+import { FONT_FILE_EXTENSIONS, type UserFont } from './fonts';
+
+// Server-only. Uploaded fonts are kept as plain files under the data
+// directory; their family names are read back from the files themselves.
+
+const USER_FONTS_DIR = path.join(DATA_DIR, 'fonts');
+const BUNDLED_FONTS_DIR = path.join(process.cwd(), 'public', 'fonts');
+const FONT_FILE_NAME_PATTERN = /^[\w-][\w.-]*\.(ttf|otf)$/i;
+
+const NAME_ID_FAMILY = 1;
+const NAME_ID_TYPOGRAPHIC_FAMILY = 16;
+
+/**
+ * Reads the family name from a TrueType/OpenType font's `name` table,
+ * preferring the typographic family. Returns null if `data` is not a font.
+ */
+export function readFontFamily(data: Buffer): string | null {
+  try {
+    const version = data.readUInt32BE(0);
+    // 1.0 (TrueType), 'OTTO' (CFF) or 'true' (old Apple TrueType).
+    if (![0x00010000, 0x4f54544f, 0x74727565].includes(version)) return null;
+    const numTables = data.readUInt16BE(4);
+    let nameOffset = -1;
+    for (let i = 0; i < numTables; i++) {
+      const record = 12 + i * 16;
+      if (data.toString('latin1', record, record + 4) === 'name') {
+        nameOffset = data.readUInt32BE(record + 8);
+        break;
+      }
+    }
+    if (nameOffset < 0) return null;
+
+    const count = data.readUInt16BE(nameOffset + 2);
+    const stringsOffset = nameOffset + data.readUInt16BE(nameOffset + 4);
+    const names = new Map<number, string>();
+    for (let i = 0; i < count; i++) {
+      const record = nameOffset + 6 + i * 12;
+      const platformId = data.readUInt16BE(record);
+      const languageId = data.readUInt16BE(record + 4);
+      const nameId = data.readUInt16BE(record + 6);
+      if (nameId !== NAME_ID_FAMILY && nameId !== NAME_ID_TYPOGRAPHIC_FAMILY) continue;
+      const start = stringsOffset + data.readUInt16BE(record + 10);
+      const raw = data.subarray(start, start + data.readUInt16BE(record + 8));
+      // Windows names are UTF-16BE; prefer US English, then any Mac name.
+      if (platformId === 3) {
+        const value = Buffer.from(raw).swap16().toString('utf16le');
+        if (languageId === 0x409 || !names.has(nameId)) names.set(nameId, value);
+      } else if (platformId === 1 && !names.has(nameId)) {
+        names.set(nameId, raw.toString('latin1'));
+      }
+    }
+    const family = (
+      names.get(NAME_ID_TYPOGRAPHIC_FAMILY) ?? names.get(NAME_ID_FAMILY)
+    )?.trim();
+    return family || null;
+  } catch {
+    // Offsets past the end of a truncated or bogus file.
+    return null;
+  }
+}
+
+function getUserFontPath(fileName: string): string {
+  // Names come from URLs, so never let one escape the fonts folder.
+  if (!FONT_FILE_NAME_PATTERN.test(fileName)) {
+    throw new Error('Invalid font file name.');
+  }
+  return path.join(USER_FONTS_DIR, fileName);
+}
+
+/** Stores an uploaded font, replacing any earlier upload of the same file. */
+export async function saveUserFont(name: string, data: Buffer): Promise<UserFont> {
+  const extension = path.extname(name).toLowerCase();
+  if (!FONT_FILE_EXTENSIONS.includes(extension)) {
+    throw new Error('Fonts must be TrueType (.ttf) or OpenType (.otf) files.');
+  }
+  const family = readFontFamily(data);
+  if (!family) throw new Error('The file is not a valid TrueType or OpenType font.');
+
+  const base = path
+    .basename(name, path.extname(name))
+    .replace(/[^\w-]+/g, '-')
+    .replace(/^-+/, '');
+  const fileName = `${base || 'font'}${extension}`;
+  await fs.mkdir(USER_FONTS_DIR, { recursive: true });
+  await fs.writeFile(getUserFontPath(fileName), data);
+  return { family, fileName };
+}
+
+export async function listUserFonts(): Promise<UserFont[]> {
+  const files = await fs.readdir(USER_FONTS_DIR).catch(() => [] as string[]);
+  const fonts: UserFont[] = [];
+  for (const fileName of files.sort()) {
+    if (!FONT_FILE_NAME_PATTERN.test(fileName)) continue;
+    const family = readFontFamily(await fs.readFile(getUserFontPath(fileName)));
+    if (family) fonts.push({ family, fileName });
+  }
+  return fonts;
+}
+
+export async function readUserFont(fileName: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(getUserFontPath(fileName));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Copies the bundled and uploaded fonts into `dir`, for libass to load
+ * through the ass filter's `fontsdir`.
+ */
+export async function copyFontsTo(dir: string): Promise<void> {
+  await fs.mkdir(dir, { recursive: true });
+  for (const source of [BUNDLED_FONTS_DIR, USER_FONTS_DIR]) {
+    const files = await fs.readdir(source).catch(() => [] as string[]);
+    for (const file of files) {
+      await fs.copyFile(path.join(source, file), path.join(dir, file));
+    }
+  }
+}
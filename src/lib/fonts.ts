@@ -0,0 +1,44 @@
+// Fonts captions can use: the families bundled in public/fonts (declared in
+// globals.css) plus fonts the user uploads, which are served from
+// /api/fonts and declared at runtime.
+
+export const BUNDLED_FONT_FAMILIES = [
+  'Space Grotesk',
+  'Inter',
+  'Roboto',
+  'Source Code Pro',
+];
+
+export const FONT_FILE_EXTENSIONS = ['.ttf', '.otf'];
+export const MAX_FONT_FILE_SIZE = 10 * 1024 * 1024;
+
+export interface UserFont {
+  family: string;
+  /** File name in the font store, also its URL segment. */
+  fileName: string;
+}
+
+export const getUserFontUrl = (font: UserFont) =>
+  `/api/fonts/${encodeURIComponent(font.fileName)}`;
+
+const FONT_STYLE_ELEMENT_ID = 'aivos-user-fonts';
+
+/**
+ * Declares `fonts` with @font-face rules so the preview can use them. They
+ * live in a stylesheet (not the FontFace API) so html-to-image finds and
+ * embeds them when capturing frames.
+ */
+export function registerUserFonts(fonts: UserFont[]) {
+  let element = document.getElementById(FONT_STYLE_ELEMENT_ID);
+  if (!element) {
+    element = document.createElement('style');
+    element.id = FONT_STYLE_ELEMENT_ID;
+    document.head.appendChild(element);
+  }
+  element.textContent = fonts
+    .map(
+      (font) =>
+        `@font-face { font-family: ${JSON.stringify(font.family)}; src: url(${JSON.stringify(getUserFontUrl(font))}); font-display: block; }`
+    )
+    .join('\n');
+}
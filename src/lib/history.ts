@@ -0,0 +1,89 @@
+export interface HistoryCommand {
+  // Human readable description, e.g. "Move segment" or "Edit text".
+  label: string;
+  // Consecutive commands with the same key are merged into one undo step,
+  // so a whole drag or a run of typing into one field undoes in one go.
+  coalesceKey?: string;
+}
+
+interface HistoryEntry<T> extends HistoryCommand {
+  before: T;
+  after: T;
+}
+
+export interface HistoryState<T> {
+  past: HistoryEntry<T>[];
+  present: T;
+  future: HistoryEntry<T>[];
+}
+
+export const HISTORY_LIMIT = 100;
+
+export function createHistory<T>(present: T): HistoryState<T> {
+  return { past: [], present, future: [] };
+}
+
+export function executeCommand<T>(
+  state: HistoryState<T>,
+  next: T,
+  command: HistoryCommand
+): HistoryState<T> {
+  if (Object.is(next, state.present)) return state;
+
+  const last = state.past[state.past.length - 1];
+  if (
+    last &&
+    state.future.length === 0 &&
+    command.coalesceKey &&
+    last.coalesceKey === command.coalesceKey
+  ) {
+    return {
+      past: [
+        ...state.past.slice(0, -1),
+        { ...last, after: next },
+      ],
+      present: next,
+      future: [],
+    };
+  }
+
+  const entry: HistoryEntry<T> = {
+    ...command,
+    before: state.present,
+    after: next,
+  };
+  return {
+    past: [...state.past, entry].slice(-HISTORY_LIMIT),
+    present: next,
+    future: [],
+  };
+}
+
+export function undo<T>(state: HistoryState<T>): HistoryState<T> {
+  const entry = state.past[state.past.length - 1];
+  if (!entry) return state;
+  return {
+    past: state.past.slice(0, -1),
+    present: entry.before,
+    // Undone steps never coalesce with whatever comes after a redo.
+    future: [{ ...entry, coalesceKey: undefined }, ...state.future],
+  };
+}
+
+export function redo<T>(state: HistoryState<T>): HistoryState<T> {
+  const [entry, ...future] = state.future;
+  if (!entry) return state;
+  return {
+    past: [...state.past, entry],
+    present: entry.after,
+    future,
+  };
+}
+
+export function getUndoLabel<T>(state: HistoryState<T>): string | null {
+  return state.past[state.past.length - 1]?.label ?? null;
+}
+
+export function getRedoLabel<T>(state: HistoryState<T>): string | null {
+  return state.future[0]?.label ?? null;
+}
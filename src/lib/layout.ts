@@ -0,0 +1,71 @@
+import type {
+  AnimationSegment,
+  CaptionAnchor,
+  LayoutRegion,
+  SegmentPosition,
+} from '@/app/types';
+
+// Where captions sit on the canvas. Shared by the preview and the ASS
+// export so both place text the same way. All values are percentages.
+
+export const LAYOUT_REGIONS: Record<
+  LayoutRegion,
+  { label: string; left: number; width: number }
+> = {
+  full: { label: 'Full width', left: 0, width: 100 },
+  left: { label: 'Left half', left: 0, width: 50 },
+  right: { label: 'Right half', left: 50, width: 50 },
+};
+
+export const CAPTION_ANCHORS: Record<CaptionAnchor, { label: string }> = {
+  top: { label: 'Top' },
+  middle: { label: 'Middle' },
+  bottom: { label: 'Bottom' },
+};
+
+/** Gap above top-anchored and below bottom-anchored captions, in % of height. */
+export const VERTICAL_MARGIN = 5;
+
+export interface ResolvedPosition {
+  region: LayoutRegion;
+  anchor: CaptionAnchor;
+  /** Null unless the caption was placed freely. */
+  point: { x: number; y: number } | null;
+  maxWidth: number;
+  rotation: number;
+}
+
+export function resolvePosition(position: SegmentPosition = {}): ResolvedPosition {
+  return {
+    region: position.region ?? 'full',
+    anchor: position.anchor ?? 'middle',
+    point:
+      position.x !== undefined && position.y !== undefined
+        ? { x: position.x, y: position.y }
+        : null,
+    maxWidth: position.maxWidth ?? 90,
+    rotation: position.rotation ?? 0,
+  };
+}
+
+export interface CaptionStack {
+  region: LayoutRegion;
+  anchor: CaptionAnchor;
+  segments: AnimationSegment[];
+}
+
+/**
+ * Groups the captions on screen into stacks, one per region and anchor, in
+ * the order they first appear. Freely placed captions are left out.
+ */
+export function getCaptionStacks(segments: AnimationSegment[]): CaptionStack[] {
+  const stacks: CaptionStack[] = [];
+  for (const segment of segments) {
+    const { region, anchor, point } = resolvePosition(segment.position);
+    if (point) continue;
+    const stack = stacks.find((s) => s.region === region && s.anchor === anchor);
+    if (stack) stack.segments.push(segment);
+    else stacks.push({ region, anchor, segments: [segment] });
+  }
+  return stacks;
+}
@@ -0,0 +1,246 @@
+import type { AnimationSegment, AspectRatio, SegmentStyle } from '@/app/types';
+import {
+  REFERENCE_CANVAS_SIZE,
+  resolveCaptionStyle,
+  type ResolvedCaptionStyle,
+} from '@/lib/caption-style';
+import { parseAspectRatio } from '@/lib/canvas';
+import { LAYOUT_REGIONS, resolvePosition } from '@/lib/layout';
+import { canSplitSegment, splitSegment } from '@/lib/segments';
+import { distributeWordTimings, getWordTimings } from '@/lib/timing';
+
+// Line breaking for captions: text is re-flowed into balanced lines within a
+// character limit, and cues with more lines than allowed can be paged into
+// several shorter cues. Limits are in characters, since that is what
+// subtitle guidelines (and the SRT/ASS exports) work with.
+
+export interface LineLimits {
+  maxCharsPerLine: number;
+  maxLines: number;
+}
+
+// Average advance of a character, in em, for the bundled sans-serif fonts.
+const AVERAGE_CHAR_WIDTH = 0.55;
+// Longer lines get hard to read however wide the frame is.
+const MAX_READABLE_CHARS = 42;
+const MIN_CHARS_PER_LINE = 10;
+
+// Characters in `style` that fit a caption of `position`: its share of the
+// region's width, as in lib/layout.ts.
+function getFittingChars(
+  aspectRatio: AspectRatio,
+  style: ResolvedCaptionStyle,
+  position?: AnimationSegment['position']
+) {
+  const { width, height } = parseAspectRatio(aspectRatio);
+  const { region, maxWidth } = resolvePosition(position);
+  // Lengths are relative to the shorter side (see lib/caption-style.ts).
+  const canvasWidth = (REFERENCE_CANVAS_SIZE * width) / Math.min(width, height);
+  const textWidth = (canvasWidth * LAYOUT_REGIONS[region].width * maxWidth) / 100 / 100;
+  const charWidth = style.fontSize * (AVERAGE_CHAR_WIDTH + style.letterSpacing);
+  return Math.max(MIN_CHARS_PER_LINE, Math.floor(textWidth / charWidth));
+}
+
+/**
+ * Limits for full-width captions in `style` on a canvas of `aspectRatio`:
+ * as many characters as fit, and a third line on portrait frames where
+ * lines are short.
+ */
+export function getDefaultLineLimits(
+  aspectRatio: AspectRatio,
+  style: ResolvedCaptionStyle
+): LineLimits {
+  const { width, height } = parseAspectRatio(aspectRatio);
+  return {
+    maxCharsPerLine: Math.min(getFittingChars(aspectRatio, style), MAX_READABLE_CHARS),
+    maxLines: height > width ? 3 : 2,
+  };
+}
+
+const splitWords = (text: string) => text.split(/\s+/).filter(Boolean);
+
+// Lines greedy filling needs; the fewest any layout can manage.
+function countLines(words: string[], maxChars: number) {
+  let lines = 0;
+  let length = Infinity;
+  for (const word of words) {
+    if (length + 1 + word.length > maxChars) {
+      lines++;
+      length = word.length;
+    } else {
+      length += 1 + word.length;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Breaks `words` into exactly `lineCount` lines of even length, as long as
+ * each fits `maxChars`. Minimising the sum of squared lengths avoids a long
+ * line followed by a single orphaned word.
+ */
+function balanceLines(words: string[], lineCount: number, maxChars: number): string[] {
+  const n = words.length;
+  const lineLength = (from: number, to: number) =>
+    words.slice(from, to).reduce((sum, word) => sum + word.length, 0) + (to - from - 1);
+
+  // cost[k][i]: best layout of the first i words in k lines.
+  const cost = Array.from({ length: lineCount + 1 }, () => new Array(n + 1).fill(Infinity));
+  const breakAt = Array.from({ length: lineCount + 1 }, () => new Array(n + 1).fill(0));
+  cost[0][0] = 0;
+  for (let k = 1; k <= lineCount; k++) {
+    for (let i = 1; i <= n; i++) {
+      for (let j = i - 1; j >= k - 1; j--) {
+        const length = lineLength(j, i);
+        // A word longer than the limit still needs a line of its own.
+        if (length > maxChars && i - j > 1) break;
+        const total = cost[k - 1][j] + length * length;
+        if (total < cost[k][i]) {
+          cost[k][i] = total;
+          breakAt[k][i] = j;
+        }
+      }
+    }
+  }
+
+  const lines: string[] = [];
+  for (let k = lineCount, i = n; k > 0; i = breakAt[k][i], k--) {
+    lines.unshift(words.slice(breakAt[k][i], i).join(' '));
+  }
+  return lines;
+}
+
+/** `text` re-flowed into balanced lines of at most `maxCharsPerLine`. */
+export function breakLines(text: string, maxCharsPerLine: number): string[] {
+  const words = splitWords(text);
+  if (words.length === 0) return [];
+  return balanceLines(words, countLines(words, maxCharsPerLine), maxCharsPerLine);
+}
+
+export interface LineLayoutOptions extends LineLimits {
+  /** Splits cues with too many lines into sequential cues. */
+  paging: boolean;
+  aspectRatio: AspectRatio;
+  /** The project's style, under each segment's own. */
+  baseStyle: SegmentStyle;
+}
+
+export interface LineLayoutChange {
+  /** Index of the cue in the segments passed in. */
+  index: number;
+  /** Cues it became; 1 when only its line breaks changed. */
+  pages: number;
+}
+
+export interface LineLayoutResult {
+  segments: AnimationSegment[];
+  changes: LineLayoutChange[];
+  /**
+   * Indexes of cues that still have more lines than allowed: paging is off,
+   * or the cue is too short to give every page the minimum duration.
+   */
+  overflowing: number[];
+}
+
+// Spreads `lineCount` lines over as few pages as possible, as evenly as
+// possible, e.g. 7 lines at 3 per page become 3, 2 and 2.
+function getPageSizes(lineCount: number, maxLines: number): number[] {
+  const pages = Math.ceil(lineCount / maxLines);
+  return Array.from(
+    { length: pages },
+    (_, index) => Math.floor(lineCount / pages) + (index < lineCount % pages ? 1 : 0)
+  );
+}
+
+/**
+ * Splits `segment` at the first word of each page. Times come from the
+ * segment's word timings when they match its text, otherwise from its
+ * length in characters. Returns null when a page would be too short.
+ */
+function pageSegment(
+  segment: AnimationSegment,
+  pages: string[][],
+  maxCharsPerLine: number
+): AnimationSegment[] | null {
+  const words = splitWords(segment.text);
+  const timings = getWordTimings(segment);
+  const wordTimes =
+    timings.length === words.length
+      ? timings
+      : distributeWordTimings(segment.text, segment.startTime, segment.endTime);
+
+  const result: AnimationSegment[] = [];
+  let rest = segment;
+  let wordIndex = 0;
+  for (const [index, page] of pages.entries()) {
+    const pageWords = splitWords(page.join(' '));
+    wordIndex += pageWords.length;
+    let current = rest;
+    if (index < pages.length - 1) {
+      const time = wordTimes[wordIndex].startTime;
+      if (!canSplitSegment(rest, time)) return null;
+      [current, rest] = splitSegment(rest, time);
+    }
+    result.push({
+      ...current,
+      text: balanceLines(pageWords, page.length, maxCharsPerLine).join('\n'),
+    });
+  }
+  return result;
+}
+
+/**
+ * Re-flows every segment's text into balanced lines and, with `paging`,
+ * pages segments that need more than `maxLines`. `maxCharsPerLine` caps
+ * every line; narrower or larger captions, e.g. in a half-width region,
+ * get fewer characters. Reports each cue whose text or timing changed,
+ * and those that still overflow.
+ */
+export function layoutSegmentLines(
+  segments: AnimationSegment[],
+  { maxLines, paging, aspectRatio, baseStyle, ...limits }: LineLayoutOptions
+): LineLayoutResult {
+  const result: AnimationSegment[] = [];
+  const changes: LineLayoutChange[] = [];
+  const overflowing: number[] = [];
+
+  segments.forEach((segment, index) => {
+    const maxCharsPerLine = Math.min(
+      limits.maxCharsPerLine,
+      getFittingChars(
+        aspectRatio,
+        resolveCaptionStyle(baseStyle, segment.style),
+        segment.position
+      )
+    );
+    const lines = breakLines(segment.text, maxCharsPerLine);
+    if (lines.length === 0) {
+      result.push(segment);
+      return;
+    }
+
+    if (paging && lines.length > maxLines) {
+      let start = 0;
+      const pages = getPageSizes(lines.length, maxLines).map((size) =>
+        lines.slice(start, (start += size))
+      );
+      const paged = pageSegment(segment, pages, maxCharsPerLine);
+      if (paged) {
+        result.push(...paged);
+        changes.push({ index, pages: paged.length });
+        return;
+      }
+    }
+
+    const text = lines.join('\n');
+    if (text === segment.text) {
+      result.push(segment);
+    } else {
+      result.push({ ...segment, text });
+      changes.push({ index, pages: 1 });
+    }
+    if (lines.length > maxLines) overflowing.push(index);
+  });
+
+  return { segments: result, changes, overflowing };
+}
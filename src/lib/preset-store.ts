@@ -0,0 +1,44 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { StylePresetSchema, type StylePreset } from '@/app/types';
+import { DATA_DIR } from './data-dir';
+
+// Server-only. Shared style presets, one JSON file per preset.
+
+const PRESETS_DIR = path.join(DATA_DIR, 'presets');
+
+function getPresetPath(id: string): string {
+  // The schema only allows word characters and dashes in ids, but callers
+  // may pass ids straight from a request.
+  if (!/^[\w-]{1,64}$/.test(id)) throw new Error('Invalid preset id.');
+  return path.join(PRESETS_DIR, `${id}.json`);
+}
+
+export async function listServerPresets(): Promise<StylePreset[]> {
+  const files = await fs.readdir(PRESETS_DIR).catch(() => [] as string[]);
+  const presets: StylePreset[] = [];
+  for (const file of files) {
+    if (!file.endsWith('.json')) continue;
+    try {
+      const raw = JSON.parse(await fs.readFile(path.join(PRESETS_DIR, file), 'utf8'));
+      const parsed = StylePresetSchema.safeParse(raw);
+      if (parsed.success) presets.push(parsed.data);
+    } catch {
+      // Skip files that are half-written or edited by hand into invalid JSON.
+    }
+  }
+  return presets.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Stores a validated preset, replacing any with the same id. */
+export async function saveServerPreset(preset: StylePreset): Promise<void> {
+  const file = getPresetPath(preset.id);
+  await fs.mkdir(PRESETS_DIR, { recursive: true });
+  await fs.writeFile(`${file}.tmp`, JSON.stringify(preset, null, 2));
+  await fs.rename(`${file}.tmp`, file);
+}
+
+export async function deleteServerPreset(id: string): Promise<void> {
+  await fs.rm(getPresetPath(id), { force: true });
+}
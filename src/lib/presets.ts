@@ -0,0 +1,189 @@
+import { z } from 'zod';
+
+import {
+  StylePresetSchema,
+  type AnimationSegment,
+  type EmotionMapping,
+  type SegmentPosition,
+  type SegmentStyle,
+  type StylePreset,
+} from '@/app/types';
+import { formatZodError } from '@/lib/project';
+
+// Style presets live in the browser; the same documents can also be kept in
+// the server's file store (lib/preset-store.ts) to share them between
+// machines. Exported files hold a list, so one file can carry a whole
+// brand kit.
+
+export const PRESET_FILE_EXTENSION = '.aivos-presets.json';
+
+const PRESETS_STORAGE_KEY = 'aivos:style-presets';
+const DEFAULT_PRESET_STORAGE_KEY = 'aivos:default-preset';
+const PRESET_FILE_VERSION = 1;
+
+const PresetFileSchema = z.object({
+  version: z.literal(PRESET_FILE_VERSION),
+  presets: z.array(StylePresetSchema),
+});
+
+/** The position every segment has in common, or none. */
+export function getSharedPosition(segments: AnimationSegment[]): SegmentPosition {
+  const [first, ...rest] = segments.map((segment) =>
+    JSON.stringify(segment.position ?? {})
+  );
+  return first && rest.every((position) => position === first)
+    ? segments[0].position ?? {}
+    : {};
+}
+
+/**
+ * A preset capturing the project's current look: its style and `position`,
+ * plus the animations and position of the first segment with each emotion.
+ */
+export function createPreset(
+  name: string,
+  style: SegmentStyle,
+  position: SegmentPosition,
+  segments: AnimationSegment[]
+): StylePreset {
+  const emotions: StylePreset['emotions'] = {};
+  for (const segment of segments) {
+    if (emotions[segment.emotion]) continue;
+    emotions[segment.emotion] = {
+      animations: segment.animations,
+      ...(segment.position && { position: segment.position }),
+    };
+  }
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    style,
+    position,
+    emotions,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * What applying a preset does to a segment's own style: 'keep' it (e.g.
+ * styles from an ASS file), 'clear' it so the project style shows through,
+ * or 'replace' it with the preset's.
+ */
+export type PresetStyleMode = 'keep' | 'clear' | 'replace';
+
+/** Gives `segment` the preset's animations and position for its emotion. */
+export function applyPresetToSegment(
+  segment: AnimationSegment,
+  preset: StylePreset,
+  { style = 'keep' }: { style?: PresetStyleMode } = {}
+): AnimationSegment {
+  const { style: ownStyle, ...rest } = segment;
+  const mapping = preset.emotions[segment.emotion];
+  const position = mapping?.position ?? preset.position;
+  return {
+    ...rest,
+    ...(style === 'keep' && ownStyle && { style: ownStyle }),
+    ...(style === 'replace' && { style: preset.style }),
+    ...(mapping && { animations: mapping.animations }),
+    ...(Object.keys(position).length > 0 && { position }),
+  };
+}
+
+/**
+ * `mapping` with the preset's animations and positions, so segments
+ * analyzed later get them too. Emotions the preset has no entry for keep
+ * their animations but take its overall position.
+ */
+export function getPresetEmotionMapping(
+  preset: StylePreset,
+  mapping: EmotionMapping
+): EmotionMapping {
+  const presetPosition =
+    Object.keys(preset.position).length > 0 ? preset.position : undefined;
+  const entries = new Map(
+    Object.entries(preset.emotions)
+      .map(([emotion, entry]) => [emotion.trim().toLowerCase(), entry] as const)
+      .filter(([emotion]) => emotion)
+  );
+  const rules = mapping.map((rule) => {
+    const entry = entries.get(rule.emotion);
+    entries.delete(rule.emotion);
+    const position = entry?.position ?? presetPosition ?? rule.position;
+    return {
+      ...rule,
+      ...(entry && { animations: entry.animations }),
+      ...(position && { position }),
+    };
+  });
+  for (const [emotion, entry] of entries) {
+    const position = entry.position ?? presetPosition;
+    rules.push({
+      emotion,
+      animations: entry.animations,
+      ...(position && { position }),
+    });
+  }
+  return rules;
+}
+
+export function serializePresets(presets: StylePreset[]): string {
+  return JSON.stringify({ version: PRESET_FILE_VERSION, presets }, null, 2);
+}
+
+/** Reads an exported preset file, or a single bare preset. */
+export function parsePresets(json: string): {
+  data: StylePreset[] | null;
+  error: string | null;
+} {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return { data: null, error: 'The file is not valid JSON.' };
+  }
+  const parsed =
+    raw && typeof raw === 'object' && 'presets' in raw
+      ? PresetFileSchema.safeParse(raw)
+      : StylePresetSchema.transform((preset) => ({ presets: [preset] })).safeParse(raw);
+  if (!parsed.success) {
+    return {
+      data: null,
+      error: `Invalid preset file. ${formatZodError(parsed.error)}`,
+    };
+  }
+  return { data: parsed.data.presets, error: null };
+}
+
+export function loadLocalPresets(): StylePreset[] {
+  try {
+    const json = window.localStorage.getItem(PRESETS_STORAGE_KEY);
+    return json ? parsePresets(json).data ?? [] : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveLocalPresets(presets: StylePreset[]) {
+  try {
+    window.localStorage.setItem(PRESETS_STORAGE_KEY, serializePresets(presets));
+  } catch (e) {
+    console.warn('Could not save style presets', e);
+  }
+}
+
+export function getDefaultPresetId(): string | null {
+  try {
+    return window.localStorage.getItem(DEFAULT_PRESET_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function setDefaultPresetId(id: string | null) {
+  try {
+    if (id) window.localStorage.setItem(DEFAULT_PRESET_STORAGE_KEY, id);
+    else window.localStorage.removeItem(DEFAULT_PRESET_STORAGE_KEY);
+  } catch (e) {
+    console.warn('Could not save the default preset', e);
+  }
+}
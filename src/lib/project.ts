@@ -0,0 +1,163 @@
+import type { ZodError } from 'zod';
+
+import {
+  AnimationSegmentSchema,
+  PROJECT_VERSION,
+  ProjectSchema,
+  type Project,
+} from '@/app/types';
+import { DEFAULT_EMOTION_MAPPING } from '@/lib/emotions';
+
+export const PROJECT_FILE_EXTENSION = '.aivos.json';
+
+const DRAFT_STORAGE_KEY = 'aivos:project-draft';
+
+export function createProject(
+  fields: Partial<Omit<Project, 'version'>> = {}
+): Project {
+  const now = new Date().toISOString();
+  return {
+    version: PROJECT_VERSION,
+    name: 'Untitled project',
+    createdAt: now,
+    updatedAt: now,
+    media: null,
+    subtitles: '',
+    aspectRatio: '16:9',
+    fitMode: 'fit',
+    style: {},
+    emotionAnalyzer: 'genkit',
+    emotionMapping: DEFAULT_EMOTION_MAPPING,
+    segments: [],
+    ...fields,
+  };
+}
+
+// Each migration upgrades a document from the keyed version to the next one.
+// Version 0 is the unversioned configuration export: a bare segment array,
+// or an object that only carries `segments`.
+const asObject = (doc: unknown): Record<string, unknown> =>
+  doc && typeof doc === 'object' && !Array.isArray(doc)
+    ? (doc as Record<string, unknown>)
+    : {};
+
+const migrations: Record<number, (doc: unknown) => unknown> = {
+  0: (doc) => {
+    const { segments = [], name } = asObject(doc);
+    return createProject({
+      segments: AnimationSegmentSchema.array().parse(Array.isArray(doc) ? doc : segments),
+      ...(typeof name === 'string' ? { name } : {}),
+    });
+  },
+  1: (doc) => ({ ...asObject(doc), version: 2, emotionAnalyzer: 'genkit' }),
+  2: (doc) => ({ ...asObject(doc), version: 3, fitMode: 'fit' }),
+  3: (doc) => ({ ...asObject(doc), version: 4, emotionMapping: DEFAULT_EMOTION_MAPPING }),
+};
+
+function getVersion(doc: unknown): number {
+  if (doc && typeof doc === 'object' && !Array.isArray(doc)) {
+    const version = (doc as { version?: unknown }).version;
+    if (typeof version === 'number') return version;
+  }
+  return 0;
+}
+
+export function migrateProject(doc: unknown): unknown {
+  let current = doc;
+  let version = getVersion(current);
+  if (version > PROJECT_VERSION) {
+    throw new Error(
+      `This project was saved by a newer version of AIVOS (v${version}).`
+    );
+  }
+  while (version < PROJECT_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`Cannot upgrade project from version ${version}.`);
+    }
+    current = migrate(current);
+    version = getVersion(current);
+  }
+  return current;
+}
+
+export function formatZodError(error: ZodError): string {
+  return error.issues
+    .slice(0, 3)
+    .map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join('.')}: ${issue.message}`
+        : issue.message
+    )
+    .join('; ');
+}
+
+export function parseProject(json: string): {
+  data: Project | null;
+  error: string | null;
+} {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return { data: null, error: 'The file is not valid JSON.' };
+  }
+
+  try {
+    const parsed = ProjectSchema.safeParse(migrateProject(raw));
+    if (!parsed.success) {
+      return {
+        data: null,
+        error: `Invalid project file. ${formatZodError(parsed.error)}`,
+      };
+    }
+    return { data: parsed.data, error: null };
+  } catch (e: any) {
+    if (e?.issues) {
+      return {
+        data: null,
+        error: `Invalid project file. ${formatZodError(e as ZodError)}`,
+      };
+    }
+    return { data: null, error: e.message || 'Could not read project file.' };
+  }
+}
+
+export function serializeProject(project: Project): string {
+  return JSON.stringify(project, null, 2);
+}
+
+export function getProjectFileName(project: Project): string {
+  const slug =
+    project.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '') || 'project';
+  return `${slug}${PROJECT_FILE_EXTENSION}`;
+}
+
+export function saveProjectDraft(project: Project) {
+  try {
+    window.localStorage.setItem(DRAFT_STORAGE_KEY, serializeProject(project));
+  } catch (e) {
+    // Storage can be full or disabled (private browsing); drafts are best-effort.
+    console.warn('Could not save project draft', e);
+  }
+}
+
+export function clearProjectDraft() {
+  try {
+    window.localStorage.removeItem(DRAFT_STORAGE_KEY);
+  } catch (e) {
+    console.warn('Could not clear project draft', e);
+  }
+}
+
+export function loadProjectDraft(): Project | null {
+  try {
+    const json = window.localStorage.getItem(DRAFT_STORAGE_KEY);
+    return json ? parseProject(json).data : null;
+  } catch {
+    return null;
+  }
+}
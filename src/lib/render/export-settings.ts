@@ -0,0 +1,160 @@
+import {
+  ExportSettingsSchema,
+  type AspectRatio,
+  type ExportOutput,
+  type ExportResolution,
+  type ExportSettings,
+  type VideoCodec,
+  type VideoContainer,
+} from '@/app/types';
+import { parseAspectRatio } from '@/lib/canvas';
+import { formatZodError } from '@/lib/project';
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  output: 'composite',
+  resolution: '1080p',
+  frameRate: 25,
+  codec: 'h264',
+  container: 'mp4',
+  rateControl: 'crf',
+  crf: 23,
+  bitrate: 8000,
+};
+
+export const EXPORT_OUTPUTS: Record<ExportOutput, { label: string }> = {
+  composite: { label: 'Video with media' },
+  overlay: { label: 'Transparent text overlay' },
+  'png-sequence': { label: 'PNG sequence (ZIP)' },
+};
+
+export const EXPORT_RESOLUTIONS: Record<
+  ExportResolution,
+  { label: string; shortSide: number }
+> = {
+  '720p': { label: '720p (HD)', shortSide: 720 },
+  '1080p': { label: '1080p (Full HD)', shortSide: 1080 },
+  '2160p': { label: '4K (2160p)', shortSide: 2160 },
+};
+
+export const EXPORT_FRAME_RATES: ExportSettings['frameRate'][] = [24, 25, 30, 50, 60];
+
+// `alphaContainers` are where the codec keeps transparency in a way editors
+// read back; an empty list means the codec has no alpha channel.
+export const VIDEO_CODECS: Record<
+  VideoCodec,
+  {
+    label: string;
+    containers: VideoContainer[];
+    alphaContainers: VideoContainer[];
+    maxCrf: number | null;
+  }
+> = {
+  h264: { label: 'H.264', containers: ['mp4', 'mov'], alphaContainers: [], maxCrf: 51 },
+  h265: {
+    label: 'H.265 (HEVC)',
+    containers: ['mp4', 'mov'],
+    alphaContainers: [],
+    maxCrf: 51,
+  },
+  vp9: { label: 'VP9', containers: ['webm', 'mp4'], alphaContainers: ['webm'], maxCrf: 63 },
+  prores: {
+    label: 'ProRes 4444',
+    containers: ['mov'],
+    alphaContainers: ['mov'],
+    maxCrf: null,
+  },
+};
+
+export const VIDEO_CONTAINERS: Record<
+  VideoContainer,
+  { label: string; mimeType: string }
+> = {
+  mp4: { label: 'MP4', mimeType: 'video/mp4' },
+  mov: { label: 'MOV (QuickTime)', mimeType: 'video/quicktime' },
+  webm: { label: 'WebM', mimeType: 'video/webm' },
+};
+
+/** The containers `codec` can be saved in for the given output. */
+export const getCodecContainers = (codec: VideoCodec, output: ExportOutput) =>
+  output === 'overlay'
+    ? VIDEO_CODECS[codec].alphaContainers
+    : VIDEO_CODECS[codec].containers;
+
+export const getExportExtension = (settings: ExportSettings) =>
+  settings.output === 'png-sequence' ? 'zip' : settings.container;
+
+export const EXPORT_MIME_TYPES: Record<string, string> = {
+  ...Object.fromEntries(
+    Object.entries(VIDEO_CONTAINERS).map(([id, { mimeType }]) => [id, mimeType])
+  ),
+  zip: 'application/zip',
+};
+
+/** The output size for `resolution` in the given aspect ratio. */
+export function getExportSize(
+  resolution: ExportResolution,
+  aspectRatio: AspectRatio
+): { width: number; height: number } {
+  const shortSide = EXPORT_RESOLUTIONS[resolution].shortSide;
+  const { width, height } = parseAspectRatio(aspectRatio);
+  // Most encoders need even dimensions.
+  const ratio = Math.max(width, height) / Math.min(width, height);
+  const longSide = Math.round((shortSide * ratio) / 2) * 2;
+  return height > width
+    ? { width: shortSide, height: longSide }
+    : { width: longSide, height: shortSide };
+}
+
+/** Describes why the codec, container and quality don't go together, if so. */
+export function getExportSettingsError(settings: ExportSettings): string | null {
+  // PNG frames are written as captured; codec settings don't apply.
+  if (settings.output === 'png-sequence') return null;
+  const codec = VIDEO_CODECS[settings.codec];
+  if (settings.output === 'overlay' && codec.alphaContainers.length === 0) {
+    return `${codec.label} has no alpha channel. Use VP9 or ProRes 4444 for overlays.`;
+  }
+  if (!getCodecContainers(settings.codec, settings.output).includes(settings.container)) {
+    return `${codec.label} cannot be saved as ${VIDEO_CONTAINERS[settings.container].label}${
+      settings.output === 'overlay' ? ' with transparency' : ''
+    }.`;
+  }
+  if (
+    codec.maxCrf !== null &&
+    settings.rateControl === 'crf' &&
+    settings.crf > codec.maxCrf
+  ) {
+    return `${codec.label} quality (CRF) must be between 0 and ${codec.maxCrf}.`;
+  }
+  return null;
+}
+
+// Settings arrive from the client as JSON; check them fully before they
+// reach ffmpeg.
+export function parseExportSettings(json: string): {
+  data: ExportSettings | null;
+  error: string | null;
+} {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return { data: null, error: 'Export settings are not valid JSON.' };
+  }
+  return validateExportSettings(raw);
+}
+
+/** The schema's bounds, then the combination checks above. */
+export function validateExportSettings(raw: unknown): {
+  data: ExportSettings | null;
+  error: string | null;
+} {
+  const parsed = ExportSettingsSchema.safeParse(raw);
+  if (!parsed.success) {
+    return {
+      data: null,
+      error: `Invalid export settings. ${formatZodError(parsed.error)}`,
+    };
+  }
+  const error = getExportSettingsError(parsed.data);
+  return error ? { data: null, error } : { data: parsed.data, error: null };
+}
@@ -0,0 +1,266 @@
+import ffmpeg, { type FfmpegCommand } from 'fluent-ffmpeg';
+import path from 'path';
+
+import type { ExportSettings, FitMode } from '@/app/types';
+import { getExportExtension, getExportSize } from './export-settings';
+import {
+  FRAME_FILE_PATTERN,
+  getFrameFileName,
+  getRenderSessionDir,
+  type RenderSession,
+} from './session';
+import { writeZip } from './zip';
+
+const ANIMATION_FILE = 'animation.webm';
+
+export const getRenderOutputFile = (settings: ExportSettings) =>
+  `output.${getExportExtension(settings)}`;
+
+/** The stages renderSessionVideo reports, in order. */
+export function getSessionRenderStages({ output }: ExportSettings): string[] {
+  if (output === 'png-sequence') return ['Packaging frames'];
+  if (output === 'overlay') return ['Encoding overlay'];
+  return ['Encoding animation', 'Combining with media'];
+}
+
+export interface RenderProgressOptions {
+  /** Called with a stage label and that stage's percent complete. */
+  onProgress?: (stage: string, percent: number) => void;
+  /** Aborting kills the running ffmpeg process. */
+  signal?: AbortSignal;
+}
+
+// ffmpeg reports progress as a "HH:MM:SS.cc" timemark.
+export function parseTimemark(timemark: string): number {
+  const [hours, minutes, seconds] = timemark.split(':').map(Number);
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+export function probeMediaDuration(mediaPath: string): Promise<number> {
+  return new Promise((resolve) => {
+    ffmpeg.ffprobe(mediaPath, (err, data) => {
+      const duration = Number(data?.format.duration);
+      resolve(!err && isFinite(duration) ? duration : 0);
+    });
+  });
+}
+
+/**
+ * Sets the video and audio encoders for `settings`. Settings must have been
+ * validated with parseExportSettings first.
+ */
+export function applyExportSettings(command: FfmpegCommand, settings: ExportSettings) {
+  const { codec, container, rateControl } = settings;
+  const isOverlay = settings.output === 'overlay';
+  command.outputOptions('-r', String(settings.frameRate));
+
+  switch (codec) {
+    case 'h264':
+      command.videoCodec('libx264').outputOptions('-preset', 'fast', '-pix_fmt', 'yuv420p');
+      break;
+    case 'h265':
+      // The hvc1 tag is what Apple players look for.
+      command
+        .videoCodec('libx265')
+        .outputOptions('-preset', 'fast', '-pix_fmt', 'yuv420p', '-tag:v', 'hvc1');
+      break;
+    case 'vp9':
+      command
+        .videoCodec('libvpx-vp9')
+        .outputOptions('-pix_fmt', isOverlay ? 'yuva420p' : 'yuv420p', '-row-mt', '1');
+      break;
+    case 'prores':
+      command
+        .videoCodec('prores_ks')
+        .outputOptions('-profile:v', '4444', '-pix_fmt', 'yuva444p10le');
+      break;
+  }
+
+  if (codec !== 'prores') {
+    if (rateControl === 'crf') {
+      command.outputOptions('-crf', String(settings.crf));
+      // VP9 only treats -crf as constant quality with no bitrate cap.
+      if (codec === 'vp9') command.outputOptions('-b:v', '0');
+    } else {
+      command.outputOptions('-b:v', `${settings.bitrate}k`);
+    }
+  }
+
+  // Overlays are the text layer alone; the sound stays with the media.
+  if (isOverlay) {
+    command.noAudio();
+  } else if (container === 'webm') {
+    command.audioCodec('libopus');
+  } else if (codec === 'prores') {
+    command.audioCodec('pcm_s16le');
+  } else {
+    command.audioCodec('aac');
+  }
+  if (container !== 'webm') command.outputOptions('-movflags', '+faststart');
+  return command;
+}
+
+/**
+ * Places a video stream on a `width` x `height` canvas without distorting
+ * it, padding or cropping as `mode` asks. For use in a filter graph.
+ */
+export function fitToSize(
+  { width, height }: { width: number; height: number },
+  mode: FitMode
+): string {
+  const pad = `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2`;
+  const filters = {
+    fit: [`scale=${width}:${height}:force_original_aspect_ratio=decrease`, pad],
+    crop: [
+      `scale=${width}:${height}:force_original_aspect_ratio=increase`,
+      `crop=${width}:${height}`,
+    ],
+    // Quoted so the commas inside min() don't split the filter chain.
+    letterbox: [`scale=${width}:-2`, `crop=${width}:'min(ih,${height})'`, pad],
+    pillarbox: [`scale=-2:${height}`, `crop='min(iw,${width})':${height}`, pad],
+  }[mode];
+  return [...filters, 'setsar=1'].join(',');
+}
+
+/**
+ * Runs a prepared command to `outputPath`, reporting progress against
+ * `duration` seconds of output and killing ffmpeg if `signal` aborts.
+ */
+export function runFfmpeg(
+  command: FfmpegCommand,
+  outputPath: string,
+  {
+    stage,
+    duration,
+    onProgress,
+    signal,
+  }: RenderProgressOptions & { stage: string; duration: number }
+): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Render cancelled.'));
+      return;
+    }
+    const abort = () => command.kill('SIGKILL');
+    signal?.addEventListener('abort', abort, { once: true });
+
+    onProgress?.(stage, 0);
+    command
+      .on('progress', (progress: { timemark?: string }) => {
+        if (!progress.timemark || duration <= 0) return;
+        const percent = (parseTimemark(progress.timemark) / duration) * 100;
+        onProgress?.(stage, Math.min(Math.max(percent, 0), 100));
+      })
+      .on('end', () => {
+        signal?.removeEventListener('abort', abort);
+        onProgress?.(stage, 100);
+        resolve();
+      })
+      .on('error', (err: Error) => {
+        signal?.removeEventListener('abort', abort);
+        reject(
+          signal?.aborted
+            ? new Error('Render cancelled.')
+            : new Error(`FFmpeg error during ${stage.toLowerCase()}: ${err.message}`)
+        );
+      })
+      .save(outputPath);
+  });
+}
+
+/**
+ * Turns a session's frames into the requested output: a transparent overlay
+ * video, a ZIP of the frames, or (by default) the overlay composited over
+ * the session's media. Resolves with the path of the finished file.
+ * Server-only.
+ */
+export async function renderSessionVideo(
+  session: RenderSession,
+  options: RenderProgressOptions = {}
+): Promise<string> {
+  const { settings } = session;
+  const dir = getRenderSessionDir(session.id);
+  const animationPath = path.join(dir, ANIMATION_FILE);
+  const outputPath = path.join(dir, getRenderOutputFile(settings));
+  const size = getExportSize(settings.resolution, session.aspectRatio);
+
+  // The captured frames already are the text layer, so they are packaged
+  // as they are rather than decoded and re-encoded.
+  if (settings.output === 'png-sequence') {
+    const stage = 'Packaging frames';
+    options.onProgress?.(stage, 0);
+    await writeZip(
+      outputPath,
+      Array.from({ length: session.frameCount }, (_, i) => ({
+        name: `frames/${getFrameFileName(i)}`,
+        path: path.join(dir, getFrameFileName(i)),
+      })),
+      (percent) => {
+        if (options.signal?.aborted) throw new Error('Render cancelled.');
+        options.onProgress?.(stage, percent);
+      }
+    );
+    return outputPath;
+  }
+
+  if (settings.output === 'overlay') {
+    await runFfmpeg(
+      applyExportSettings(
+        ffmpeg()
+          .input(path.join(dir, FRAME_FILE_PATTERN))
+          .inputFPS(settings.frameRate)
+          .videoFilters(`scale=${size.width}:${size.height}`)
+          .duration(session.duration),
+        settings
+      ),
+      outputPath,
+      { ...options, stage: 'Encoding overlay', duration: session.duration }
+    );
+    return outputPath;
+  }
+
+  // 1. Create animation video from frames
+  await runFfmpeg(
+    ffmpeg()
+      .input(path.join(dir, FRAME_FILE_PATTERN))
+      .inputFPS(settings.frameRate)
+      .videoCodec('libvpx-vp9')
+      .addOption('-pix_fmt', 'yuva420p') // for transparency
+      .duration(session.duration),
+    animationPath,
+    { ...options, stage: 'Encoding animation', duration: session.duration }
+  );
+
+  // 2. Combine and render
+  const command = ffmpeg().input(path.join(dir, session.mediaFileName));
+
+  // Frames are captured at roughly the export size; both layers are scaled
+  // to exactly that size before they are combined.
+  if (session.isVideo) {
+    command
+      .input(animationPath)
+      .inputOptions('-c:v', 'libvpx-vp9') // the native VP9 decoder drops alpha
+      .complexFilter(
+        `[0:v]${fitToSize(size, session.fitMode)},format=yuv420p[bg];` +
+          `[1:v]scale=${size.width}:${size.height}[fg];[bg][fg]overlay[v]`
+      )
+      .map('[v]')
+      .map('[0:a]?'); // use audio from original video if it exists
+  } else {
+    // Audio source
+    command
+      .input(animationPath)
+      .complexFilter(`[1:v]scale=${size.width}:${size.height},format=yuv420p[v]`)
+      .map('[v]')
+      .map('[0:a]') // use the audio from the input
+      .outputOptions('-shortest'); // end when the shortest input (audio) ends
+  }
+
+  await runFfmpeg(applyExportSettings(command, settings), outputPath, {
+    ...options,
+    stage: 'Combining with media',
+    duration: session.duration,
+  });
+
+  return outputPath;
+}
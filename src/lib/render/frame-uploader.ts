@@ -0,0 +1,78 @@
+import {
+  getRenderSessionAction,
+  uploadRenderFramesAction,
+} from '@/app/actions';
+
+interface FrameUploaderOptions {
+  /** Frames sent per request. */
+  chunkSize?: number;
+  /** Attempts per chunk before giving up. */
+  maxAttempts?: number;
+  onUploaded?: (receivedFrames: number) => void;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Uploads frames to a render session as they are captured. Frames are kept
+ * only until the server has acknowledged them; when a chunk fails, the
+ * uploader asks the session how far it got and resumes from there.
+ */
+export function createFrameUploader(
+  sessionId: string,
+  { chunkSize = 25, maxAttempts = 4, onUploaded }: FrameUploaderOptions = {}
+) {
+  // Frames from `pendingStart` onwards have not been acknowledged yet.
+  let pending: Blob[] = [];
+  let pendingStart = 0;
+
+  const acknowledge = (receivedFrames: number) => {
+    pending = pending.slice(Math.max(receivedFrames - pendingStart, 0));
+    pendingStart = Math.max(pendingStart, receivedFrames);
+    onUploaded?.(receivedFrames);
+  };
+
+  const sendPending = async () => {
+    for (let attempt = 1; pending.length > 0; attempt++) {
+      const formData = new FormData();
+      formData.append('sessionId', sessionId);
+      formData.append('startIndex', String(pendingStart));
+      pending
+        .slice(0, chunkSize)
+        .forEach((frame, i) =>
+          formData.append('frames', frame, `frame-${pendingStart + i}.png`)
+        );
+
+      let error: string | null;
+      try {
+        const result = await uploadRenderFramesAction(formData);
+        if (result.data) {
+          acknowledge(result.data.receivedFrames);
+          attempt = 0;
+          continue;
+        }
+        error = result.error;
+      } catch (e: any) {
+        error = e.message || 'Network error.';
+      }
+
+      if (attempt >= maxAttempts) {
+        throw new Error(`Failed to upload frames. ${error}`);
+      }
+      await sleep(500 * 2 ** (attempt - 1));
+      // The request may have landed even if the response did not.
+      const status = await getRenderSessionAction(sessionId).catch(() => null);
+      if (status?.data) acknowledge(status.data.receivedFrames);
+    }
+  };
+
+  return {
+    async push(frame: Blob) {
+      pending.push(frame);
+      if (pending.length >= chunkSize) await sendPending();
+    },
+    async flush() {
+      await sendPending();
+    },
+  };
+}
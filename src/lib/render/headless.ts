@@ -0,0 +1,141 @@
+import { promises as fs } from 'fs';
+import ffmpeg from 'fluent-ffmpeg';
+import path from 'path';
+
+import type { ExportSettings, Project } from '@/app/types';
+import { sortSegments } from '@/lib/segments';
+import { serializeAss } from '@/lib/subtitles';
+import { copyFontsTo } from '@/lib/font-store';
+import { getExportSize } from './export-settings';
+import { FRAME_FILE_PATTERN } from './session';
+import { writeZip } from './zip';
+import {
+  applyExportSettings,
+  fitToSize,
+  getRenderOutputFile,
+  probeMediaDuration,
+  runFfmpeg,
+  type RenderProgressOptions,
+} from './ffmpeg';
+
+// Server-only. Renders the text layer without a browser: the project is
+// written out as an ASS script (see lib/subtitles/ass.ts for how animations
+// map to override tags) and burned in by ffmpeg's libass filter. Letter and
+// word effects have no ASS equivalent, so the result approximates the
+// preview rather than matching it frame for frame.
+
+const SUBTITLES_FILE = 'subtitles.ass';
+const FRAMES_DIR = 'frames';
+const FONTS_DIR = 'fonts';
+/** The stages renderProjectVideo reports, in order. */
+export const getProjectRenderStages = ({ output }: ExportSettings): string[] =>
+  output === 'png-sequence'
+    ? ['Rendering frames', 'Packaging frames']
+    : ['Rendering video'];
+
+/**
+ * Renders `project` over the media at `mediaPath` into `workDir` and
+ * resolves with the path of the output: a video in the container `settings`
+ * chose (MP4, MOV or WebM), or a ZIP of PNG frames.
+ */
+export async function renderProjectVideo({
+  project,
+  mediaPath,
+  isVideo,
+  workDir,
+  settings,
+  ...options
+}: RenderProgressOptions & {
+  project: Project;
+  mediaPath: string;
+  isVideo: boolean;
+  workDir: string;
+  /** Validated export settings. */
+  settings: ExportSettings;
+}): Promise<string> {
+  // Subtitles are laid out at the output size, and video is fitted to it
+  // first, so libass never has to stretch them.
+  const size = getExportSize(settings.resolution, project.aspectRatio);
+  await fs.writeFile(
+    path.join(workDir, SUBTITLES_FILE),
+    serializeAss(sortSegments(project.segments), {
+      ...size,
+      style: project.style,
+    })
+  );
+
+  // Bundled and uploaded fonts, so libass does not fall back to system ones.
+  await copyFontsTo(path.join(workDir, FONTS_DIR));
+
+  const outputPath = path.join(workDir, getRenderOutputFile(settings));
+  // The ass filter is given paths relative to workDir, so nothing in it
+  // needs filter-graph escaping.
+  const subtitlesFilter = `ass=${SUBTITLES_FILE}:fontsdir=${FONTS_DIR}`;
+  const command = ffmpeg({ cwd: workDir });
+  const duration = await probeMediaDuration(mediaPath);
+
+  // Overlays and frame sequences are the text alone, drawn over a fully
+  // transparent canvas as long as the media.
+  if (settings.output !== 'composite') {
+    if (duration <= 0) throw new Error('Could not read the media duration.');
+    command
+      .input(
+        `color=c=black@0.0:s=${size.width}x${size.height}:r=${settings.frameRate}:d=${duration}`
+      )
+      .inputFormat('lavfi')
+      .videoFilters(`format=rgba,${subtitlesFilter}`);
+
+    if (settings.output === 'overlay') {
+      await runFfmpeg(applyExportSettings(command, settings), outputPath, {
+        ...options,
+        stage: 'Rendering video',
+        duration,
+      });
+      return outputPath;
+    }
+
+    const framesDir = path.join(workDir, FRAMES_DIR);
+    await fs.mkdir(framesDir, { recursive: true });
+    await runFfmpeg(command, path.join(framesDir, FRAME_FILE_PATTERN), {
+      ...options,
+      stage: 'Rendering frames',
+      duration,
+    });
+    const frameFiles = (await fs.readdir(framesDir)).sort();
+    options.onProgress?.('Packaging frames', 0);
+    await writeZip(
+      outputPath,
+      frameFiles.map((file) => ({
+        name: `${FRAMES_DIR}/${file}`,
+        path: path.join(framesDir, file),
+      })),
+      (percent) => {
+        if (options.signal?.aborted) throw new Error('Render cancelled.');
+        options.onProgress?.('Packaging frames', percent);
+      }
+    );
+    return outputPath;
+  }
+
+  if (isVideo) {
+    command
+      .input(mediaPath)
+      .videoFilters(`${fitToSize(size, project.fitMode)},${subtitlesFilter}`)
+      .outputOptions('-map', '0:v', '-map', '0:a?');
+  } else {
+    command
+      .input(`color=c=black:s=${size.width}x${size.height}:r=${settings.frameRate}`)
+      .inputFormat('lavfi')
+      .input(mediaPath)
+      .videoFilters(subtitlesFilter)
+      .outputOptions('-map', '0:v', '-map', '1:a', '-shortest');
+  }
+
+  await runFfmpeg(
+    applyExportSettings(command, settings),
+    outputPath,
+    { ...options, stage: 'Rendering video', duration }
+  );
+
+  return outputPath;
+}
@@ -0,0 +1,51 @@
+import { getRenderJobAction } from '@/app/actions';
+import { isFinishedJobState, type RenderJobStatus } from './job-status';
+
+const POLL_INTERVAL_MS = 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const getRenderJobDownloadUrl = (jobId: string) =>
+  `/api/render-jobs/${jobId}/download`;
+
+async function pollRenderJob(
+  jobId: string,
+  onUpdate: (status: RenderJobStatus) => void
+): Promise<RenderJobStatus> {
+  for (;;) {
+    const { data, error } = await getRenderJobAction(jobId);
+    if (!data) throw new Error(error ?? 'Render job not found.');
+    onUpdate(data);
+    if (isFinishedJobState(data.state)) return data;
+    await sleep(POLL_INTERVAL_MS);
+  }
+}
+
+/**
+ * Follows a render job until it completes, fails or is cancelled, calling
+ * `onUpdate` with each status. Listens on the job's event stream and falls
+ * back to polling when the stream is unavailable or drops.
+ */
+export function watchRenderJob(
+  jobId: string,
+  onUpdate: (status: RenderJobStatus) => void
+): Promise<RenderJobStatus> {
+  if (typeof EventSource === 'undefined') {
+    return pollRenderJob(jobId, onUpdate);
+  }
+  return new Promise((resolve, reject) => {
+    const events = new EventSource(`/api/render-jobs/${jobId}/events`);
+    events.onmessage = (event) => {
+      const status: RenderJobStatus = JSON.parse(event.data);
+      onUpdate(status);
+      if (isFinishedJobState(status.state)) {
+        events.close();
+        resolve(status);
+      }
+    };
+    events.onerror = () => {
+      events.close();
+      pollRenderJob(jobId, onUpdate).then(resolve, reject);
+    };
+  });
+}
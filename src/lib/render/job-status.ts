@@ -0,0 +1,21 @@
+// Shared by the server job queue and the browser code that follows it.
+
+export type RenderJobState =
+  | 'queued'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+/** What clients see of a job. */
+export interface RenderJobStatus {
+  id: string;
+  state: RenderJobState;
+  stage: string;
+  /** Overall percent complete, 0-100. */
+  progress: number;
+  error: string | null;
+}
+
+export const isFinishedJobState = (state: RenderJobState) =>
+  state === 'completed' || state === 'failed' || state === 'cancelled';
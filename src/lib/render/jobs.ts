@@ -0,0 +1,172 @@
+import { randomUUID } from 'crypto';
+
+import type { RenderProgressOptions } from './ffmpeg';
+import { isFinishedJobState, type RenderJobStatus } from './job-status';
+
+// Server-only. Renders run one at a time in the background; callers get a
+// job id straight away and follow progress by polling or over SSE.
+
+type RenderTask = (options: Required<RenderProgressOptions>) => Promise<string>;
+
+interface RenderJob extends RenderJobStatus {
+  task: RenderTask;
+  /** Stages in the order the task reports them, for overall progress. */
+  stages: string[];
+  controller: AbortController;
+  cleanup: () => Promise<void>;
+  outputPath: string | null;
+  finishedAt: number | null;
+  listeners: Set<(status: RenderJobStatus) => void>;
+}
+
+// Finished jobs (and their files) are kept this long for downloading.
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+// Kept on globalThis so server actions and route handlers, which may load
+// separate copies of this module, share one queue.
+interface RenderJobRegistry {
+  jobs: Map<string, RenderJob>;
+  queue: string[];
+  running: boolean;
+}
+const store = globalThis as unknown as { aivosRenderJobs?: RenderJobRegistry };
+const registry: RenderJobRegistry = (store.aivosRenderJobs ??= {
+  jobs: new Map(),
+  queue: [],
+  running: false,
+});
+
+const toStatus = ({ id, state, stage, progress, error }: RenderJob): RenderJobStatus => ({
+  id,
+  state,
+  stage,
+  progress,
+  error,
+});
+
+function update(job: RenderJob, changes: Partial<RenderJobStatus>) {
+  Object.assign(job, changes);
+  if (isFinishedJobState(job.state)) job.finishedAt = Date.now();
+  const status = toStatus(job);
+  job.listeners.forEach((listener) => listener(status));
+}
+
+async function pruneFinishedJobs() {
+  const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+  for (const job of registry.jobs.values()) {
+    if (job.finishedAt !== null && job.finishedAt < cutoff) {
+      registry.jobs.delete(job.id);
+      await job.cleanup().catch(() => {});
+    }
+  }
+}
+
+async function runQueue() {
+  if (registry.running) return;
+  registry.running = true;
+  try {
+    let id: string | undefined;
+    while ((id = registry.queue.shift())) {
+      const job = registry.jobs.get(id);
+      if (!job || job.state !== 'queued') continue;
+      update(job, { state: 'running', stage: job.stages[0] ?? 'Rendering' });
+      try {
+        job.outputPath = await job.task({
+          signal: job.controller.signal,
+          onProgress: (stage, percent) => {
+            const index = Math.max(job.stages.indexOf(stage), 0);
+            update(job, {
+              stage,
+              progress: Math.round(((index + percent / 100) / job.stages.length) * 100),
+            });
+          },
+        });
+        update(job, { state: 'completed', stage: 'Done', progress: 100 });
+      } catch (e: any) {
+        if (job.controller.signal.aborted) {
+          update(job, { state: 'cancelled', stage: 'Cancelled' });
+        } else {
+          console.error('Render job failed:', e);
+          update(job, {
+            state: 'failed',
+            stage: 'Failed',
+            error: e.message || 'An unknown error occurred on the server.',
+          });
+        }
+        await job.cleanup().catch(() => {});
+      }
+    }
+  } finally {
+    registry.running = false;
+  }
+}
+
+/**
+ * Queues `task` and returns its job straight away. `cleanup` removes the
+ * job's files once it fails, is cancelled or expires.
+ */
+export async function enqueueRenderJob({
+  task,
+  stages,
+  cleanup,
+}: {
+  task: RenderTask;
+  stages: string[];
+  cleanup: () => Promise<void>;
+}): Promise<RenderJobStatus> {
+  await pruneFinishedJobs();
+  const job: RenderJob = {
+    id: randomUUID(),
+    state: 'queued',
+    stage: 'Waiting in queue',
+    progress: 0,
+    error: null,
+    task,
+    stages,
+    controller: new AbortController(),
+    cleanup,
+    outputPath: null,
+    finishedAt: null,
+    listeners: new Set(),
+  };
+  registry.jobs.set(job.id, job);
+  registry.queue.push(job.id);
+  // Not awaited: the queue runs in the background.
+  void runQueue();
+  return toStatus(job);
+}
+
+export function getRenderJob(id: string): RenderJobStatus | null {
+  const job = registry.jobs.get(id);
+  return job ? toStatus(job) : null;
+}
+
+export function getRenderJobOutput(id: string): string | null {
+  const job = registry.jobs.get(id);
+  return job?.state === 'completed' ? job.outputPath : null;
+}
+
+export async function cancelRenderJob(id: string): Promise<RenderJobStatus | null> {
+  const job = registry.jobs.get(id);
+  if (!job) return null;
+  if (job.state === 'queued') {
+    registry.queue = registry.queue.filter((queued) => queued !== id);
+    update(job, { state: 'cancelled', stage: 'Cancelled' });
+    await job.cleanup().catch(() => {});
+  } else if (job.state === 'running') {
+    // runQueue marks the job cancelled once ffmpeg has exited.
+    job.controller.abort();
+  }
+  return toStatus(job);
+}
+
+/** Calls `listener` on every change to the job. Returns an unsubscribe. */
+export function subscribeToRenderJob(
+  id: string,
+  listener: (status: RenderJobStatus) => void
+): () => void {
+  const job = registry.jobs.get(id);
+  if (!job) return () => {};
+  job.listeners.add(listener);
+  return () => job.listeners.delete(listener);
+}
@@ -0,0 +1,145 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import type { AspectRatio, ExportSettings, FitMode } from '@/app/types';
+
+// Server-only. A render session is a temp directory holding the uploaded
+// media, the frames received so far and a small JSON manifest, so uploads
+// can continue across requests and resume after a failure.
+
+export interface RenderSessionOptions {
+  frameCount: number;
+  duration: number;
+  isVideo: boolean;
+  aspectRatio: AspectRatio;
+  fitMode: FitMode;
+  /** Validated export settings; frames arrive at `settings.frameRate`. */
+  settings: ExportSettings;
+}
+
+export interface RenderSession extends RenderSessionOptions {
+  id: string;
+  createdAt: string;
+  mediaFileName: string;
+  /** Frames 0..receivedFrames-1 are on disk. */
+  receivedFrames: number;
+}
+
+const SESSIONS_DIR = path.join(os.tmpdir(), 'aivos-render-sessions');
+const MANIFEST_FILE = 'session.json';
+const SESSION_ID_PATTERN = /^[0-9a-f-]{36}$/;
+// Sessions abandoned mid-upload are removed after this long.
+const SESSION_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+export const FRAME_FILE_PATTERN = 'frame-%05d.png';
+
+export const getFrameFileName = (index: number) =>
+  `frame-${String(index).padStart(5, '0')}.png`;
+
+export function getRenderSessionDir(id: string): string {
+  // Ids come from the client, so never let one escape the sessions folder.
+  if (!SESSION_ID_PATTERN.test(id)) {
+    throw new Error('Invalid render session id.');
+  }
+  return path.join(SESSIONS_DIR, id);
+}
+
+async function writeManifest(session: RenderSession) {
+  const file = path.join(getRenderSessionDir(session.id), MANIFEST_FILE);
+  // Write then rename so a crash never leaves a half-written manifest.
+  await fs.writeFile(`${file}.tmp`, JSON.stringify(session));
+  await fs.rename(`${file}.tmp`, file);
+}
+
+async function pruneStaleSessions() {
+  const entries = await fs.readdir(SESSIONS_DIR).catch(() => []);
+  const cutoff = Date.now() - SESSION_MAX_AGE_MS;
+  for (const entry of entries) {
+    const dir = path.join(SESSIONS_DIR, entry);
+    const stats = await fs.stat(dir).catch(() => null);
+    if (stats && stats.mtimeMs < cutoff) {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+}
+
+export async function createRenderSession(
+  options: RenderSessionOptions,
+  media: File
+): Promise<RenderSession> {
+  if (!Number.isInteger(options.frameCount) || options.frameCount <= 0) {
+    throw new Error('A render needs at least one frame.');
+  }
+  if (!(options.duration > 0)) {
+    throw new Error('Invalid duration.');
+  }
+
+  const session: RenderSession = {
+    ...options,
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+    mediaFileName: `media${path.extname(media.name)}`,
+    receivedFrames: 0,
+  };
+  await pruneStaleSessions();
+  const dir = getRenderSessionDir(session.id);
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(
+    path.join(dir, session.mediaFileName),
+    Buffer.from(await media.arrayBuffer())
+  );
+  await writeManifest(session);
+  return session;
+}
+
+export async function getRenderSession(id: string): Promise<RenderSession> {
+  const file = path.join(getRenderSessionDir(id), MANIFEST_FILE);
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch {
+    throw new Error('Render session not found or expired.');
+  }
+}
+
+/**
+ * Stores a chunk of frames starting at `startIndex`. Chunks must arrive in
+ * order: a chunk may overlap frames already stored (a retried upload) but
+ * may not leave a hole. Returns the updated session.
+ */
+export async function writeRenderFrames(
+  id: string,
+  startIndex: number,
+  frames: Blob[]
+): Promise<RenderSession> {
+  const session = await getRenderSession(id);
+  if (!Number.isInteger(startIndex) || startIndex < 0) {
+    throw new Error('Invalid frame index.');
+  }
+  if (startIndex > session.receivedFrames) {
+    throw new Error(
+      `Expected frame ${session.receivedFrames} but got ${startIndex}.`
+    );
+  }
+  if (startIndex + frames.length > session.frameCount) {
+    throw new Error('Too many frames for this render session.');
+  }
+
+  const dir = getRenderSessionDir(id);
+  for (let i = 0; i < frames.length; i++) {
+    const buffer = Buffer.from(await frames[i].arrayBuffer());
+    await fs.writeFile(path.join(dir, getFrameFileName(startIndex + i)), buffer);
+  }
+
+  const updated = {
+    ...session,
+    receivedFrames: Math.max(session.receivedFrames, startIndex + frames.length),
+  };
+  await writeManifest(updated);
+  return updated;
+}
+
+export async function deleteRenderSession(id: string): Promise<void> {
+  await fs.rm(getRenderSessionDir(id), { recursive: true, force: true });
+}
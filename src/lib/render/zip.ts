@@ -0,0 +1,115 @@
+import { createWriteStream, promises as fs } from 'fs';
+import { once } from 'events';
+
+// Server-only. A minimal ZIP writer for render output. Entries are stored
+// uncompressed: PNG frames are already compressed, so deflating them again
+// would only cost time. No ZIP64, so archives are limited to 65535 entries
+// and 4 GiB.
+
+const MAX_ENTRIES = 0xffff;
+const MAX_OFFSET = 0xffffffff;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date) {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+export interface ZipEntry {
+  /** Path inside the archive. */
+  name: string;
+  /** File on disk to store under `name`. */
+  path: string;
+}
+
+/**
+ * Writes `entries` to a ZIP at `outputPath`, one file in memory at a time.
+ * `onProgress` is called with the percent of entries written.
+ */
+export async function writeZip(
+  outputPath: string,
+  entries: ZipEntry[],
+  onProgress?: (percent: number) => void
+): Promise<void> {
+  if (entries.length > MAX_ENTRIES) {
+    throw new Error(`Too many files for a ZIP archive (${entries.length}).`);
+  }
+  const out = createWriteStream(outputPath);
+  const write = async (chunk: Buffer) => {
+    if (!out.write(chunk)) await once(out, 'drain');
+  };
+  const { time, date } = dosDateTime(new Date());
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  try {
+    for (let i = 0; i < entries.length; i++) {
+      const name = Buffer.from(entries[i].name, 'utf8');
+      const data = await fs.readFile(entries[i].path);
+      const crc = crc32(data);
+      if (offset + 30 + name.length + data.length > MAX_OFFSET) {
+        throw new Error('The archive would be larger than 4 GiB.');
+      }
+
+      const local = Buffer.alloc(30);
+      local.writeUInt32LE(0x04034b50, 0);
+      local.writeUInt16LE(20, 4); // version needed
+      local.writeUInt16LE(0x0800, 6); // UTF-8 names
+      local.writeUInt16LE(0, 8); // stored
+      local.writeUInt16LE(time, 10);
+      local.writeUInt16LE(date, 12);
+      local.writeUInt32LE(crc, 14);
+      local.writeUInt32LE(data.length, 18);
+      local.writeUInt32LE(data.length, 22);
+      local.writeUInt16LE(name.length, 26);
+      local.writeUInt16LE(0, 28);
+
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(20, 4); // version made by
+      header.writeUInt16LE(20, 6);
+      header.writeUInt16LE(0x0800, 8);
+      header.writeUInt16LE(0, 10);
+      header.writeUInt16LE(time, 12);
+      header.writeUInt16LE(date, 14);
+      header.writeUInt32LE(crc, 16);
+      header.writeUInt32LE(data.length, 20);
+      header.writeUInt32LE(data.length, 24);
+      header.writeUInt16LE(name.length, 28);
+      header.writeUInt32LE(offset, 42);
+      central.push(header, name);
+
+      await write(local);
+      await write(name);
+      await write(data);
+      offset += local.length + name.length + data.length;
+      onProgress?.(((i + 1) / entries.length) * 100);
+    }
+
+    const directory = Buffer.concat(central);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+    await write(directory);
+    await write(end);
+  } finally {
+    out.end();
+    await once(out, 'close');
+  }
+}
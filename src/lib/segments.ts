@@ -0,0 +1,209 @@
+import type { AnimationSegment, TimedText } from '@/app/types';
+import { getWordTimings } from '@/lib/timing';
+
+// Shortest segment the editor will produce by trimming or splitting.
+export const MIN_SEGMENT_DURATION = 0.1;
+
+const roundTime = (time: number) => Math.round(time * 1000) / 1000;
+
+export function sortSegments(segments: AnimationSegment[]): AnimationSegment[] {
+  return [...segments].sort((a, b) => a.startTime - b.startTime);
+}
+
+export function getActiveSegments(
+  segments: AnimationSegment[],
+  time: number
+): AnimationSegment[] {
+  return segments.filter(
+    (segment) => time >= segment.startTime && time < segment.endTime
+  );
+}
+
+function shiftTimings(timings: TimedText[] | undefined, delta: number) {
+  return timings?.map((timing) => ({
+    ...timing,
+    startTime: roundTime(timing.startTime + delta),
+    endTime: roundTime(timing.endTime + delta),
+  }));
+}
+
+// Keeps word and syllable timings inside the segment after a trim.
+function clampTimings(
+  timings: TimedText[] | undefined,
+  startTime: number,
+  endTime: number
+) {
+  return timings
+    ?.filter((timing) => timing.endTime > startTime && timing.startTime < endTime)
+    .map((timing) => ({
+      ...timing,
+      startTime: Math.max(timing.startTime, startTime),
+      endTime: Math.min(timing.endTime, endTime),
+    }));
+}
+
+/** Moves a segment by `delta` seconds, keeping it within [0, duration]. */
+export function moveSegment(
+  segment: AnimationSegment,
+  delta: number,
+  duration: number
+): AnimationSegment {
+  const length = segment.endTime - segment.startTime;
+  const startTime = roundTime(
+    Math.min(Math.max(segment.startTime + delta, 0), Math.max(duration - length, 0))
+  );
+  const applied = startTime - segment.startTime;
+  return {
+    ...segment,
+    startTime,
+    endTime: roundTime(startTime + length),
+    ...(segment.words && { words: shiftTimings(segment.words, applied) }),
+    ...(segment.syllables && { syllables: shiftTimings(segment.syllables, applied) }),
+  };
+}
+
+/** Moves one edge of a segment to `time`, keeping a minimum length. */
+export function trimSegment(
+  segment: AnimationSegment,
+  edge: 'start' | 'end',
+  time: number,
+  duration: number
+): AnimationSegment {
+  const startTime =
+    edge === 'start'
+      ? roundTime(Math.min(Math.max(time, 0), segment.endTime - MIN_SEGMENT_DURATION))
+      : segment.startTime;
+  const endTime =
+    edge === 'end'
+      ? roundTime(
+          Math.max(Math.min(time, duration), segment.startTime + MIN_SEGMENT_DURATION)
+        )
+      : segment.endTime;
+  return {
+    ...segment,
+    startTime,
+    endTime,
+    ...(segment.words && {
+      words: clampTimings(segment.words, startTime, endTime),
+    }),
+    ...(segment.syllables && {
+      syllables: clampTimings(segment.syllables, startTime, endTime),
+    }),
+  };
+}
+
+// Picks the word boundary closest to `ratio` of the way through the text.
+function splitTextAt(text: string, ratio: number): [string, string] {
+  const boundaries = [...text.matchAll(/\s+/g)].map((match) => match.index ?? 0);
+  if (boundaries.length === 0) return [text, ''];
+  const target = text.length * ratio;
+  const index = boundaries.reduce((best, boundary) =>
+    Math.abs(boundary - target) < Math.abs(best - target) ? boundary : best
+  );
+  return [text.slice(0, index).trim(), text.slice(index).trim()];
+}
+
+export function canSplitSegment(segment: AnimationSegment, time: number) {
+  return (
+    time - segment.startTime >= MIN_SEGMENT_DURATION &&
+    segment.endTime - time >= MIN_SEGMENT_DURATION
+  );
+}
+
+/**
+ * Splits a segment in two at `time`. Syllable or word timings decide where
+ * the text breaks when present; otherwise the nearest word boundary to the
+ * time's proportional position is used.
+ */
+export function splitSegment(
+  segment: AnimationSegment,
+  time: number
+): [AnimationSegment, AnimationSegment] {
+  const splitTime = roundTime(time);
+  const { syllables, words, ...rest } = segment;
+
+  let firstText: string;
+  let secondText: string;
+  let firstSyllables: TimedText[] | undefined;
+  let secondSyllables: TimedText[] | undefined;
+  const firstWords = clampTimings(
+    words?.filter((word) => word.startTime < splitTime),
+    segment.startTime,
+    splitTime
+  );
+  const secondWords = clampTimings(
+    words?.filter((word) => word.startTime >= splitTime),
+    splitTime,
+    segment.endTime
+  );
+
+  if (syllables?.length) {
+    firstSyllables = syllables.filter((syllable) => syllable.startTime < splitTime);
+    secondSyllables = syllables.filter((syllable) => syllable.startTime >= splitTime);
+    firstText = firstSyllables.map((syllable) => syllable.text).join('').trim();
+    secondText = secondSyllables.map((syllable) => syllable.text).join('').trim();
+  } else if (firstWords && secondWords) {
+    firstText = firstWords.map((word) => word.text).join(' ');
+    secondText = secondWords.map((word) => word.text).join(' ');
+  } else {
+    const ratio =
+      (splitTime - segment.startTime) / (segment.endTime - segment.startTime);
+    [firstText, secondText] = splitTextAt(segment.text, ratio);
+  }
+
+  return [
+    {
+      ...rest,
+      text: firstText || segment.text,
+      endTime: splitTime,
+      ...(firstWords?.length && { words: firstWords }),
+      ...(firstSyllables?.length && { syllables: firstSyllables }),
+    },
+    {
+      ...rest,
+      text: secondText || segment.text,
+      startTime: splitTime,
+      ...(secondWords?.length && { words: secondWords }),
+      ...(secondSyllables?.length && { syllables: secondSyllables }),
+    },
+  ];
+}
+
+/**
+ * Merges two segments into one spanning both. Emotion, animations, style
+ * and position come from the earlier segment.
+ */
+export function mergeSegments(
+  a: AnimationSegment,
+  b: AnimationSegment
+): AnimationSegment {
+  const [first, second] = a.startTime <= b.startTime ? [a, b] : [b, a];
+  // If either side has syllable timings, the other becomes one long syllable
+  // so the karaoke fill still covers the whole merged text.
+  const asSyllables = (segment: AnimationSegment): TimedText[] =>
+    segment.syllables ?? [
+      { text: segment.text, startTime: segment.startTime, endTime: segment.endTime },
+    ];
+  const syllables =
+    first.syllables || second.syllables
+      ? [
+          ...asSyllables(first),
+          ...asSyllables(second).map((syllable, index) =>
+            index === 0 ? { ...syllable, text: ` ${syllable.text}` } : syllable
+          ),
+        ]
+      : undefined;
+  // A side without word timings falls back to the character-weighted split.
+  const words =
+    first.words || second.words
+      ? [...getWordTimings(first), ...getWordTimings(second)]
+      : undefined;
+  return {
+    ...first,
+    text: `${first.text} ${second.text}`,
+    startTime: Math.min(first.startTime, second.startTime),
+    endTime: Math.max(first.endTime, second.endTime),
+    ...(words && { words }),
+    ...(syllables && { syllables }),
+  };
+}
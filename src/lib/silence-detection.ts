@@ -0,0 +1,56 @@
+import ffmpeg from 'fluent-ffmpeg';
+
+import type { TimeRange } from '@/lib/alignment';
+
+export interface SilenceDetectionOptions {
+  /** Anything quieter than this many dB counts as silence. */
+  noiseDb?: number;
+  /** Shortest pause, in seconds, that counts as a silence. */
+  minSilence?: number;
+}
+
+/**
+ * Runs ffmpeg's `silencedetect` filter over a local media file and returns
+ * its duration and the silent ranges. Server-only.
+ */
+export function detectSilences(
+  filePath: string,
+  { noiseDb = -35, minSilence = 0.3 }: SilenceDetectionOptions = {}
+): Promise<{ duration: number; silences: TimeRange[] }> {
+  return new Promise((resolve, reject) => {
+    const silences: TimeRange[] = [];
+    let duration = 0;
+    let silenceStart: number | null = null;
+
+    ffmpeg(filePath)
+      .noVideo()
+      .audioFilters(`silencedetect=noise=${noiseDb}dB:d=${minSilence}`)
+      .format('null')
+      .on('codecData', (data) => {
+        const [hours, minutes, seconds] = String(data.duration).split(':');
+        const parsed =
+          Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+        if (isFinite(parsed)) duration = parsed;
+      })
+      .on('stderr', (line: string) => {
+        const start = /silence_start: (-?[\d.]+)/.exec(line);
+        if (start) silenceStart = Math.max(parseFloat(start[1]), 0);
+        const end = /silence_end: ([\d.]+)/.exec(line);
+        if (end) {
+          silences.push({ start: silenceStart ?? 0, end: parseFloat(end[1]) });
+          silenceStart = null;
+        }
+      })
+      .on('end', () => {
+        // A silence running to the end of the file is never closed.
+        if (silenceStart !== null) {
+          silences.push({ start: silenceStart, end: duration });
+        }
+        resolve({ duration, silences });
+      })
+      .on('error', (err) =>
+        reject(new Error(`FFmpeg error detecting silence: ${err.message}`))
+      )
+      .save('-');
+  });
+}
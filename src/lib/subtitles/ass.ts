@@ -0,0 +1,510 @@
+import type {
+  AnimationSegment,
+  CaptionAnchor,
+  SegmentStyle,
+  SubtitleCue,
+  TimedText,
+} from '@/app/types';
+import { getAnimation, resolveAnimationParams } from '@/lib/animations';
+import {
+  LAYOUT_REGIONS,
+  resolvePosition,
+  VERTICAL_MARGIN,
+  type ResolvedPosition,
+} from '@/lib/layout';
+import {
+  REFERENCE_CANVAS_SIZE,
+  resolveCaptionStyle,
+  type ResolvedCaptionStyle,
+} from '@/lib/caption-style';
+import { getTimedUnits } from '@/lib/timing';
+
+interface AssStyle {
+  fontName?: string;
+  primaryColour?: string;
+  secondaryColour?: string;
+  outlineColour?: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+/**
+ * Parses an ASS timestamp (`H:MM:SS.cc`, centisecond precision).
+ * Returns NaN for anything malformed.
+ */
+export function parseAssTimestamp(time: string): number {
+  const match = /^(\d+):(\d{1,2}):(\d{1,2})(?:\.(\d{1,3}))?$/.exec(time.trim());
+  if (!match) return NaN;
+  const [, hours, minutes, seconds, fraction = '0'] = match;
+  return (
+    parseInt(hours, 10) * 3600 +
+    parseInt(minutes, 10) * 60 +
+    parseInt(seconds, 10) +
+    parseFloat(`0.${fraction}`)
+  );
+}
+
+/**
+ * Converts an ASS colour (`&HAABBGGRR` or `&HBBGGRR`, alpha inverted so that
+ * 00 is opaque) to a CSS colour string.
+ */
+export function parseAssColour(value: string): string | undefined {
+  const hex = value.trim().replace(/^&H/i, '').replace(/&$/, '');
+  if (!/^[0-9a-f]{1,8}$/i.test(hex)) return undefined;
+  const padded = hex.padStart(8, '0');
+  const alpha = 1 - parseInt(padded.slice(0, 2), 16) / 255;
+  const blue = parseInt(padded.slice(2, 4), 16);
+  const green = parseInt(padded.slice(4, 6), 16);
+  const red = parseInt(padded.slice(6, 8), 16);
+  if (alpha >= 1) return `rgb(${red}, ${green}, ${blue})`;
+  return `rgba(${red}, ${green}, ${blue}, ${Number(alpha.toFixed(3))})`;
+}
+
+export function isAss(content: string): boolean {
+  return /^\s*\[(Script Info|Events|V4\+? Styles)\]/im.test(content);
+}
+
+// Splits a `Key: a,b,c` line into fields according to a `Format:` line. The
+// last field (Text in events) keeps any remaining commas.
+function splitFields(value: string, format: string[]): Record<string, string> {
+  const parts = value.split(',');
+  const fields: Record<string, string> = {};
+  format.forEach((name, i) => {
+    fields[name] =
+      i === format.length - 1 ? parts.slice(i).join(',') : parts[i] ?? '';
+  });
+  return fields;
+}
+
+function parseStyle(fields: Record<string, string>): AssStyle {
+  // SSA v4 styles name the outline colour TertiaryColour.
+  const outline = fields.outlinecolour ?? fields.tertiarycolour;
+  return {
+    fontName: fields.fontname?.trim() || undefined,
+    primaryColour: fields.primarycolour
+      ? parseAssColour(fields.primarycolour)
+      : undefined,
+    secondaryColour: fields.secondarycolour
+      ? parseAssColour(fields.secondarycolour)
+      : undefined,
+    outlineColour: outline ? parseAssColour(outline) : undefined,
+    // ASS uses -1 for true, SSA uses 1.
+    bold: fields.bold ? fields.bold.trim() !== '0' : undefined,
+    italic: fields.italic ? fields.italic.trim() !== '0' : undefined,
+  };
+}
+
+function toSegmentStyle(style: AssStyle | undefined): SegmentStyle | undefined {
+  if (!style) return undefined;
+  const result: SegmentStyle = {
+    fontFamily: style.fontName,
+    color: style.primaryColour,
+    karaokeColor: style.secondaryColour,
+    outlineColor: style.outlineColour,
+    bold: style.bold,
+    italic: style.italic,
+  };
+  const defined = Object.entries(result).filter(([, v]) => v !== undefined);
+  return defined.length > 0 ? Object.fromEntries(defined) : undefined;
+}
+
+function decodeText(text: string): string {
+  return text.replace(/\\N/g, '\n').replace(/\\n/g, '\n').replace(/\\h/g, ' ');
+}
+
+interface ParsedDialogue {
+  text: string;
+  animations: string[];
+  syllables: TimedText[];
+  overrides: AssStyle;
+}
+
+// Walks the dialogue text, splitting it into plain text and `{...}` override
+// blocks, and collects the tags that matter for animation and styling.
+function parseDialogueText(
+  raw: string,
+  startTime: number,
+  endTime: number
+): ParsedDialogue {
+  const animations = new Set<string>();
+  const overrides: AssStyle = {};
+  const syllables: TimedText[] = [];
+  let text = '';
+  let karaokeCursor = startTime;
+  let pendingSyllable: { duration: number; text: string } | null = null;
+
+  const flushSyllable = () => {
+    if (!pendingSyllable) return;
+    const sylStart = Math.min(karaokeCursor, endTime);
+    const sylEnd = Math.min(karaokeCursor + pendingSyllable.duration, endTime);
+    if (pendingSyllable.text) {
+      syllables.push({ text: pendingSyllable.text, startTime: sylStart, endTime: sylEnd });
+    }
+    karaokeCursor += pendingSyllable.duration;
+    pendingSyllable = null;
+  };
+
+  const tokens = raw.split(/(\{[^}]*\})/);
+  for (const token of tokens) {
+    if (token.startsWith('{') && token.endsWith('}')) {
+      const tags = token.slice(1, -1);
+
+      if (/\\fade?\s*\(/i.test(tags)) animations.add('fadeIn');
+      if (/\\move\s*\(/i.test(tags)) animations.add('slide');
+
+      const fontName = /\\fn([^\\}]+)/.exec(tags);
+      if (fontName) overrides.fontName = fontName[1].trim();
+      const primary = /\\1?c(&H[0-9a-f]+&?)/i.exec(tags);
+      if (primary) overrides.primaryColour = parseAssColour(primary[1]);
+      const secondary = /\\2c(&H[0-9a-f]+&?)/i.exec(tags);
+      if (secondary) overrides.secondaryColour = parseAssColour(secondary[1]);
+      const outline = /\\3c(&H[0-9a-f]+&?)/i.exec(tags);
+      if (outline) overrides.outlineColour = parseAssColour(outline[1]);
+      const bold = /\\b(\d+)/.exec(tags);
+      if (bold) overrides.bold = bold[1] !== '0';
+      const italic = /\\i([01])/.exec(tags);
+      if (italic) overrides.italic = italic[1] === '1';
+
+      // \k, \K, \kf and \ko all give the following syllable's duration in
+      // centiseconds; only the fill style differs.
+      const karaokeTags = tags.matchAll(/\\(?:kf|ko|k|K)(\d+)/g);
+      for (const match of karaokeTags) {
+        flushSyllable();
+        animations.add('karaoke-fill');
+        pendingSyllable = { duration: parseInt(match[1], 10) / 100, text: '' };
+      }
+      continue;
+    }
+
+    const decoded = decodeText(token);
+    text += decoded;
+    if (pendingSyllable) pendingSyllable.text += decoded;
+  }
+  flushSyllable();
+
+  return { text, animations: [...animations], syllables, overrides };
+}
+
+export function parseAss(assContent: string): SubtitleCue[] {
+  const segments: SubtitleCue[] = [];
+  const styles = new Map<string, AssStyle>();
+  let section = '';
+  let styleFormat: string[] = [];
+  let eventFormat: string[] = [];
+
+  const lines = assContent.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith(';')) continue;
+
+    const sectionMatch = /^\[(.+)\]$/.exec(line);
+    if (sectionMatch) {
+      section = sectionMatch[1].toLowerCase();
+      continue;
+    }
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trimStart();
+
+    if (section.endsWith('styles')) {
+      if (key === 'format') {
+        styleFormat = value.split(',').map((f) => f.trim().toLowerCase());
+      } else if (key === 'style' && styleFormat.length > 0) {
+        const fields = splitFields(value, styleFormat);
+        styles.set(fields.name?.trim() ?? '', parseStyle(fields));
+      }
+    } else if (section === 'events') {
+      if (key === 'format') {
+        eventFormat = value.split(',').map((f) => f.trim().toLowerCase());
+      } else if (key === 'dialogue' && eventFormat.length > 0) {
+        const fields = splitFields(value, eventFormat);
+        const startTime = parseAssTimestamp(fields.start ?? '');
+        const endTime = parseAssTimestamp(fields.end ?? '');
+        if (!isFinite(startTime) || !isFinite(endTime)) continue;
+
+        const dialogue = parseDialogueText(fields.text ?? '', startTime, endTime);
+        const text = dialogue.text.trim();
+        if (!text) continue;
+
+        const baseStyle =
+          styles.get(fields.style?.trim().replace(/^\*/, '') ?? '') ??
+          styles.get('Default');
+        const style = toSegmentStyle({ ...baseStyle, ...dialogue.overrides });
+
+        segments.push({
+          startTime,
+          endTime,
+          text,
+          ...(dialogue.animations.length > 0 && {
+            animations: dialogue.animations,
+          }),
+          ...(dialogue.syllables.length > 0 && {
+            syllables: dialogue.syllables,
+          }),
+          ...(style && { style }),
+        });
+      }
+    }
+  }
+
+  return segments.sort((a, b) => a.startTime - b.startTime);
+}
+
+const PLAY_RES_X = 1920;
+const PLAY_RES_Y = 1080;
+
+export function formatAssTimestamp(seconds: number): string {
+  const totalCentis = Math.max(0, Math.round(seconds * 100));
+  const hours = Math.floor(totalCentis / 360_000);
+  const minutes = Math.floor((totalCentis % 360_000) / 6000);
+  const secs = Math.floor((totalCentis % 6000) / 100);
+  const centis = totalCentis % 100;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${hours}:${pad(minutes)}:${pad(secs)}.${pad(centis)}`;
+}
+
+/**
+ * Converts a CSS colour (`#rgb`, `#rrggbb`, `rgb()` or `rgba()`) to the ASS
+ * `&HAABBGGRR` form. Returns undefined for colours it cannot represent.
+ */
+export function formatAssColour(value: string): string | undefined {
+  let red: number, green: number, blue: number;
+  let alpha = 1;
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(value.trim());
+  const rgb = /^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([\d.]+)\s*)?\)$/i.exec(
+    value.trim()
+  );
+  if (hex) {
+    const digits =
+      hex[1].length === 3 ? hex[1].replace(/./g, (c) => c + c) : hex[1];
+    red = parseInt(digits.slice(0, 2), 16);
+    green = parseInt(digits.slice(2, 4), 16);
+    blue = parseInt(digits.slice(4, 6), 16);
+  } else if (rgb) {
+    [red, green, blue] = [rgb[1], rgb[2], rgb[3]].map((c) => parseInt(c, 10));
+    if (rgb[4] !== undefined) alpha = parseFloat(rgb[4]);
+  } else {
+    return undefined;
+  }
+  const toHex = (n: number) =>
+    Math.min(255, Math.max(0, Math.round(n))).toString(16).padStart(2, '0').toUpperCase();
+  return `&H${toHex((1 - alpha) * 255)}${toHex(blue)}${toHex(green)}${toHex(red)}&`;
+}
+
+// The segment's animations as ASS override tags, for a caption whose
+// alignment point is `point`, with the parameters the preview uses. Effects
+// without an ASS form, e.g. the letter-level bounceLetters and rainText, are
+// dropped.
+function getAnimationTags(segment: AnimationSegment, point: { x: number; y: number }) {
+  return segment.animations
+    .map((id) => {
+      const definition = getAnimation(id);
+      return definition?.toAss
+        ? definition.toAss(
+            resolveAnimationParams(definition, segment.animationParams?.[id]),
+            point
+          )
+        : '';
+    })
+    .join('');
+}
+
+// Style lengths are relative to REFERENCE_CANVAS_SIZE.
+const scaleLength = (pixels: number, scale: number) =>
+  Math.round(pixels * scale * 100) / 100;
+
+// Caption styles become style lines, approximated where ASS falls short:
+// a gradient fill uses its first colour, only the first shadow is drawn and
+// without blur, and a background box (BorderStyle 3) is square, takes the
+// larger padding on all sides and replaces the outline. Line height has no
+// equivalent.
+function styleLine(name: string, style: ResolvedCaptionStyle, scale: number) {
+  const colour = (value: string | undefined, fallback: string) =>
+    value ? formatAssColour(value) ?? fallback : fallback;
+  const size = (pixels: number) => scaleLength(pixels, scale);
+  const box = style.background;
+  const outline = box
+    ? Math.max(box.paddingX, box.paddingY)
+    : style.outlineColor
+    ? style.outlineWidth
+    : 0;
+  return [
+    `Style: ${name}`,
+    style.fontFamily.replace(/,/g, ' '),
+    size(style.fontSize),
+    colour(style.gradient?.from ?? style.color, '&H00FFFFFF'),
+    colour(style.karaokeColor, '&H80FFFFFF'),
+    box ? colour(box.color, '&H80000000') : colour(style.outlineColor, '&H00000000'),
+    box ? '&HFF000000' : colour(style.shadows[0]?.color, '&H80000000'),
+    style.fontWeight >= 600 ? -1 : 0,
+    style.italic ? -1 : 0,
+    '0,0,100,100',
+    size(style.letterSpacing * style.fontSize),
+    0,
+    box ? 3 : 1,
+    size(outline),
+    // The shadow offset is set per line with \xshad and \yshad.
+    0,
+    '5,40,40,40,1',
+  ].join(',');
+}
+
+// What a style line cannot say: in-between weights and an uneven shadow.
+function styleTags(style: ResolvedCaptionStyle, scale: number): string {
+  let tags = '';
+  if (style.fontWeight !== 400 && style.fontWeight !== 700) {
+    tags += `\\b${style.fontWeight}`;
+  }
+  const [shadow] = style.shadows;
+  if (shadow && !style.background) {
+    tags += `\\xshad${scaleLength(shadow.x, scale)}\\yshad${scaleLength(shadow.y, scale)}`;
+  }
+  return tags;
+}
+
+const ASS_ALIGNMENTS: Record<CaptionAnchor, number> = { top: 8, middle: 5, bottom: 2 };
+
+// Places a caption as the preview does (see lib/layout.ts): the margins set
+// the region and wrap width, the alignment the anchor, and a free position
+// becomes \pos. Rotation turns around the alignment point, which for top
+// and bottom anchors is an edge rather than the centre.
+function getLayout(position: ResolvedPosition, width: number, height: number) {
+  const region = LAYOUT_REGIONS[position.region];
+  const regionLeft = (region.left / 100) * width;
+  const regionWidth = (region.width / 100) * width;
+  const wrapWidth = (regionWidth * position.maxWidth) / 100;
+  const marginV = Math.round((VERTICAL_MARGIN / 100) * height);
+  const rotation = position.rotation ? `\\frz${-position.rotation}` : '';
+
+  if (position.point) {
+    const point = {
+      x: Math.round((position.point.x / 100) * width),
+      y: Math.round((position.point.y / 100) * height),
+    };
+    const side = Math.round((width - wrapWidth) / 2);
+    return {
+      point,
+      tags: rotation,
+      pos: `\\pos(${point.x},${point.y})`,
+      margins: [side, side, 0],
+    };
+  }
+
+  const side = (regionWidth - wrapWidth) / 2;
+  const alignment = ASS_ALIGNMENTS[position.anchor];
+  const point = {
+    x: Math.round(regionLeft + regionWidth / 2),
+    y:
+      position.anchor === 'top'
+        ? marginV
+        : position.anchor === 'bottom'
+        ? height - marginV
+        : Math.round(height / 2),
+  };
+  return {
+    point,
+    tags: (alignment === 5 ? '' : `\\an${alignment}`) + rotation,
+    pos: '',
+    margins: [
+      Math.round(regionLeft + side),
+      Math.round(width - regionLeft - regionWidth + side),
+      marginV,
+    ],
+  };
+}
+
+function escapeAssText(text: string): string {
+  return text.replace(/[{}]/g, '').replace(/\n/g, '\\N');
+}
+
+// karaoke-fill sweeps each syllable (\kf); karaoke-words switches each word
+// at once (\k), the closest ASS has to a highlight.
+function karaokeText(segment: AnimationSegment, mode: 'fill' | 'highlight'): string {
+  const units = getTimedUnits(segment, mode === 'fill' ? 'syllable' : 'word');
+  const tag = mode === 'fill' ? 'kf' : 'k';
+  let cursor = segment.startTime;
+  return units
+    .map((unit) => {
+      // Gaps between units become silent \k spacers.
+      const gap = Math.round((unit.startTime - cursor) * 100);
+      const duration = Math.round((unit.endTime - unit.startTime) * 100);
+      cursor = unit.endTime;
+      return `${gap > 0 ? `{\\k${gap}}` : ''}{\\${tag}${Math.max(duration, 0)}}${escapeAssText(unit.text)}`;
+    })
+    .join('');
+}
+
+export interface AssSerializeOptions {
+  /** Script resolution; positions and font sizes are relative to it. */
+  width?: number;
+  height?: number;
+  /** Base style for every line, under each segment's own style. */
+  style?: SegmentStyle;
+}
+
+/**
+ * Serialises segments to an ASS script. Animations become override tags,
+ * each distinct segment style becomes a style line and the emotion is stored
+ * in the Name (actor) field.
+ */
+export function serializeAss(
+  segments: AnimationSegment[],
+  { width = PLAY_RES_X, height = PLAY_RES_Y, style }: AssSerializeOptions = {}
+): string {
+  const scale = Math.min(width, height) / REFERENCE_CANVAS_SIZE;
+
+  // One style line per distinct look; the project's own is Default.
+  const styleNames = new Map<string, string>();
+  const styleLines: string[] = [];
+  const getStyleName = (resolved: ResolvedCaptionStyle) => {
+    const key = JSON.stringify(resolved);
+    let name = styleNames.get(key);
+    if (!name) {
+      name = styleNames.size === 0 ? 'Default' : `Style${styleNames.size + 1}`;
+      styleNames.set(key, name);
+      styleLines.push(styleLine(name, resolved, scale));
+    }
+    return name;
+  };
+  getStyleName(resolveCaptionStyle(style));
+
+  const events = segments.map((segment) => {
+    const resolved = resolveCaptionStyle(style, segment.style);
+    const layout = getLayout(resolvePosition(segment.position), width, height);
+    const animationTags = getAnimationTags(segment, layout.point);
+    // \move already places the caption; ASS takes only one of the two.
+    const tags =
+      layout.tags +
+      (animationTags.includes('\\move(') ? '' : layout.pos) +
+      styleTags(resolved, scale) +
+      animationTags;
+    const body = segment.animations.includes('karaoke-fill')
+      ? karaokeText(segment, 'fill')
+      : segment.animations.includes('karaoke-words')
+      ? karaokeText(segment, 'highlight')
+      : escapeAssText(segment.text);
+    const name = segment.emotion.replace(/,/g, ' ');
+    return `Dialogue: 0,${formatAssTimestamp(segment.startTime)},${formatAssTimestamp(segment.endTime)},${getStyleName(resolved)},${name},${layout.margins.join(',')},,${tags ? `{${tags}}` : ''}${body}`;
+  });
+
+  const header = [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${width}`,
+    `PlayResY: ${height}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    ...styleLines,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+  ];
+
+  return [...header, ...events].join('\n').concat('\n');
+}
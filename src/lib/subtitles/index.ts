@@ -0,0 +1,95 @@
+import type {
+  AnimationSegment,
+  AspectRatio,
+  SegmentStyle,
+  SubtitleCue,
+} from '@/app/types';
+import { getExportSize } from '@/lib/render/export-settings';
+import { isAss, parseAss, serializeAss } from './ass';
+import { parseSrt, serializeSrt } from './srt';
+import { isVtt, parseVtt, serializeVtt } from './vtt';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+export function detectSubtitleFormat(content: string): SubtitleFormat {
+  if (isVtt(content)) return 'vtt';
+  if (isAss(content)) return 'ass';
+  return 'srt';
+}
+
+const parsers: Record<SubtitleFormat, (content: string) => SubtitleCue[]> = {
+  srt: parseSrt,
+  vtt: parseVtt,
+  ass: parseAss,
+};
+
+export function parseSubtitles(content: string): {
+  format: SubtitleFormat;
+  cues: SubtitleCue[];
+} {
+  const format = detectSubtitleFormat(content);
+  const cues = parsers[format](content);
+  return { format, cues };
+}
+
+// Only ASS can carry the canvas and project style; the others ignore them.
+export interface SubtitleExportOptions {
+  aspectRatio?: AspectRatio;
+  style?: SegmentStyle;
+}
+
+const serializers: Record<
+  SubtitleFormat,
+  (segments: AnimationSegment[], options: SubtitleExportOptions) => string
+> = {
+  srt: serializeSrt,
+  vtt: serializeVtt,
+  // Laid out at 1080p of the project's shape, like a server render.
+  ass: (segments, { aspectRatio, style }) =>
+    serializeAss(segments, {
+      ...(aspectRatio && getExportSize('1080p', aspectRatio)),
+      style,
+    }),
+};
+
+export function serializeSubtitles(
+  segments: AnimationSegment[],
+  format: SubtitleFormat,
+  options: SubtitleExportOptions = {}
+): string {
+  const ordered = [...segments].sort((a, b) => a.startTime - b.startTime);
+  return serializers[format](ordered, options);
+}
+
+export const SUBTITLE_FILE_EXTENSIONS: Record<SubtitleFormat, string> = {
+  srt: 'srt',
+  vtt: 'vtt',
+  ass: 'ass',
+};
+
+export const SUBTITLE_MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  ass: 'text/x-ssa',
+};
+
+export {
+  formatAssColour,
+  formatAssTimestamp,
+  parseAss,
+  parseAssColour,
+  parseAssTimestamp,
+  serializeAss,
+} from './ass';
+export {
+  formatSrtTimestamp,
+  parseSrt,
+  parseTimeToSeconds,
+  serializeSrt,
+} from './srt';
+export {
+  formatVttTimestamp,
+  parseVtt,
+  parseVttTimestamp,
+  serializeVtt,
+} from './vtt';
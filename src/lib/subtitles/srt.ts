@@ -0,0 +1,80 @@
+import type { AnimationSegment, SubtitleCue } from '@/app/types';
+
+export function parseTimeToSeconds(time: string): number {
+  const parts = time.replace(',', '.').split(':');
+  if (parts.length !== 3) return 0;
+  const hours = parseInt(parts[0], 10);
+  const minutes = parseInt(parts[1], 10);
+  const seconds = parseFloat(parts[2]);
+  if (isNaN(hours) || isNaN(minutes) || isNaN(seconds)) return 0;
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+export function parseSrt(srtContent: string): SubtitleCue[] {
+  const segments: SubtitleCue[] = [];
+  const blocks = srtContent.trim().replace(/\r\n/g, '\n').split('\n\n');
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    if (lines.length < 2) continue;
+
+    let timeLineIndex = -1;
+    for (let i = 0; i < lines.length; i++) {
+      if (lines[i].includes('-->')) {
+        timeLineIndex = i;
+        break;
+      }
+    }
+
+    if (timeLineIndex === -1) continue;
+
+    const timeLine = lines[timeLineIndex];
+    const [startStr, endStr] = timeLine.split(' --> ');
+    const textLines = lines.slice(timeLineIndex + 1);
+
+    if (!startStr || !endStr || textLines.length === 0) continue;
+
+    const startTime = parseTimeToSeconds(startStr.trim());
+    const endTime = parseTimeToSeconds(endStr.trim());
+    const text = textLines.join('\n').trim();
+
+    if (isFinite(startTime) && isFinite(endTime) && text) {
+      segments.push({
+        startTime,
+        endTime,
+        text,
+      });
+    }
+  }
+
+  return segments;
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+export function formatSrtTimestamp(seconds: number): string {
+  const totalMillis = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMillis / 3_600_000);
+  const minutes = Math.floor((totalMillis % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMillis % 60_000) / 1000);
+  const millis = totalMillis % 1000;
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)},${pad(millis, 3)}`;
+}
+
+/** Drops empty and whitespace-only lines, which end a cue in SRT and VTT. */
+export const collapseBlankLines = (text: string) =>
+  text.replace(/\r\n?/g, '\n').replace(/\n[ \t]*(?=\n)/g, '').trim();
+
+// SRT has nowhere to put emotion or animation choices, so only the timing
+// and text survive.
+export function serializeSrt(segments: AnimationSegment[]): string {
+  return segments
+    .map(
+      (segment, index) =>
+        `${index + 1}\n${formatSrtTimestamp(segment.startTime)} --> ${formatSrtTimestamp(segment.endTime)}\n${collapseBlankLines(segment.text)}`
+    )
+    .join('\n\n')
+    .concat('\n');
+}
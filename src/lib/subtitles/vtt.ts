@@ -0,0 +1,102 @@
+import type { AnimationSegment, SubtitleCue } from '@/app/types';
+import { collapseBlankLines, formatSrtTimestamp } from './srt';
+
+// Anything after the end timestamp is cue settings (`align:start line:90%`),
+// which only affect placement and are not needed for timing.
+const TIMING_LINE = /^(\S+)\s+-->\s+(\S+)(?:\s+.*)?$/;
+
+/**
+ * Parses a WebVTT timestamp. Accepts both the full `HH:MM:SS.mmm` form and
+ * the short `MM:SS.mmm` form. Returns NaN for anything malformed.
+ */
+export function parseVttTimestamp(time: string): number {
+  const match = /^(?:(\d+):)?(\d{2}):(\d{2})\.(\d{3})$/.exec(time.trim());
+  if (!match) return NaN;
+  const [, hours = '0', minutes, seconds, millis] = match;
+  const totalMillis =
+    ((parseInt(hours, 10) * 60 + parseInt(minutes, 10)) * 60 +
+      parseInt(seconds, 10)) *
+      1000 +
+    parseInt(millis, 10);
+  return totalMillis / 1000;
+}
+
+// Cue text may carry voice/class spans (`<v Bob>`, `<c.yellow>`), inline
+// karaoke timestamps (`<00:00:01.000>`) and HTML entities.
+function stripCueMarkup(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+export function isVtt(content: string): boolean {
+  return /^WEBVTT(?:[ \t\r\n]|$)/.test(content.replace(/^\uFEFF/, '').trimStart());
+}
+
+export function parseVtt(vttContent: string): SubtitleCue[] {
+  const segments: SubtitleCue[] = [];
+  const blocks = vttContent
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .trim()
+    .split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const firstLine = lines[0].trim();
+
+    // Header, comments and style/region definitions carry no cues.
+    if (
+      firstLine.startsWith('WEBVTT') ||
+      /^NOTE(?:\s|$)/.test(firstLine) ||
+      /^STYLE(?:\s|$)/.test(firstLine) ||
+      /^REGION(?:\s|$)/.test(firstLine)
+    ) {
+      continue;
+    }
+
+    // An optional cue identifier may precede the timing line.
+    const timeLineIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timeLineIndex === -1 || timeLineIndex > 1) continue;
+
+    const timing = TIMING_LINE.exec(lines[timeLineIndex].trim());
+    if (!timing) continue;
+
+    const startTime = parseVttTimestamp(timing[1]);
+    const endTime = parseVttTimestamp(timing[2]);
+    const text = stripCueMarkup(lines.slice(timeLineIndex + 1).join('\n')).trim();
+
+    if (isFinite(startTime) && isFinite(endTime) && text) {
+      segments.push({
+        startTime,
+        endTime,
+        text,
+      });
+    }
+  }
+
+  return segments;
+}
+
+export function formatVttTimestamp(seconds: number): string {
+  return formatSrtTimestamp(seconds).replace(',', '.');
+}
+
+function escapeCueText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Emotion and animations are kept in a NOTE block ahead of each cue. Players
+// ignore NOTE blocks, and so does parseVtt, so the file stays valid.
+export function serializeVtt(segments: AnimationSegment[]): string {
+  const blocks = segments.map((segment, index) => {
+    const note = `NOTE emotion=${segment.emotion} animations=${segment.animations.join(',')}`;
+    // A cue payload must not contain a blank line.
+    const text = collapseBlankLines(escapeCueText(segment.text));
+    return `${note}\n\n${index + 1}\n${formatVttTimestamp(segment.startTime)} --> ${formatVttTimestamp(segment.endTime)}\n${text}`;
+  });
+  return ['WEBVTT', ...blocks].join('\n\n').concat('\n');
+}
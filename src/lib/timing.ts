@@ -0,0 +1,122 @@
+import type { AnimationSegment, TimedText } from '@/app/types';
+
+const roundTime = (time: number) => Math.round(time * 1000) / 1000;
+
+/**
+ * Spreads the words of `text` over [startTime, endTime], giving each word a
+ * share proportional to its character count. Used when only segment timing
+ * is known, so longer words are held longer, roughly like speech.
+ */
+export function distributeWordTimings(
+  text: string,
+  startTime: number,
+  endTime: number
+): TimedText[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const totalWeight = words.reduce((sum, word) => sum + word.length, 0);
+  const duration = Math.max(endTime - startTime, 0);
+  let weight = 0;
+  return words.map((word, index) => {
+    const wordStart = startTime + (duration * weight) / totalWeight;
+    weight += word.length;
+    return {
+      text: word,
+      startTime: roundTime(wordStart),
+      // The last word ends exactly on the segment end despite rounding.
+      endTime:
+        index === words.length - 1
+          ? endTime
+          : roundTime(startTime + (duration * weight) / totalWeight),
+    };
+  });
+}
+
+// Joins syllables into words, breaking wherever a syllable starts or ends
+// with whitespace (as in ASS karaoke lines).
+function groupSyllables(syllables: TimedText[]): TimedText[] {
+  const words: TimedText[] = [];
+  let pending: TimedText[] = [];
+  const flush = () => {
+    if (pending.length === 0) return;
+    words.push({
+      text: pending.map((syllable) => syllable.text.trim()).join(''),
+      startTime: pending[0].startTime,
+      endTime: pending[pending.length - 1].endTime,
+    });
+    pending = [];
+  };
+  for (const syllable of syllables) {
+    if (/^\s/.test(syllable.text)) flush();
+    if (syllable.text.trim()) pending.push(syllable);
+    if (/\s$/.test(syllable.text)) flush();
+  }
+  flush();
+  return words;
+}
+
+/**
+ * Word timings for a segment: the explicit `words` when present, otherwise
+ * grouped from syllable timings, otherwise the character-weighted fallback.
+ */
+export function getWordTimings(segment: AnimationSegment): TimedText[] {
+  if (segment.words?.length) return segment.words;
+  if (segment.syllables?.length) return groupSyllables(segment.syllables);
+  return distributeWordTimings(segment.text, segment.startTime, segment.endTime);
+}
+
+/** The finest timing available: syllables, falling back to words. */
+export function getSyllableTimings(segment: AnimationSegment): TimedText[] {
+  return segment.syllables?.length ? segment.syllables : getWordTimings(segment);
+}
+
+// Puts the line breaks of `separators`, the whitespace between the words of
+// the segment's text, into the spacing the syllables carry. The first run of
+// whitespace after a word becomes the break; any more before the next word
+// are dropped so the break is not doubled.
+function breakSyllables(syllables: TimedText[], separators: string[]): TimedText[] {
+  let wordCount = 0;
+  let inWord = false;
+  let brokenAfter = -1;
+  return syllables.map((syllable) => ({
+    ...syllable,
+    text: syllable.text.replace(/\s+|\S+/g, (part) => {
+      if (/\S/.test(part)) {
+        if (!inWord) wordCount++;
+        inWord = true;
+        return part;
+      }
+      inWord = false;
+      if (!separators[wordCount - 1]?.includes('\n')) return part;
+      if (brokenAfter === wordCount) return '';
+      brokenAfter = wordCount;
+      return '\n';
+    }),
+  }));
+}
+
+/**
+ * Timed units ready to render one after another. Word units get a trailing
+ * space so they read as text, or a line break where the segment's text has
+ * one; syllables carry their own spacing, with the text's line breaks put in
+ * when they split into the same words.
+ */
+export function getTimedUnits(
+  segment: AnimationSegment,
+  granularity: 'word' | 'syllable'
+): TimedText[] {
+  const separators = segment.text.trim().match(/\s+/g) ?? [];
+  if (granularity === 'syllable' && segment.syllables?.length) {
+    const wordCount = groupSyllables(segment.syllables).length;
+    return wordCount === separators.length + 1
+      ? breakSyllables(segment.syllables, separators)
+      : segment.syllables;
+  }
+  const words = getWordTimings(segment);
+  // Breaks can only be placed when the timings match the text word for word.
+  const keepBreaks = separators.length === words.length - 1;
+  return words.map((word, index) => {
+    if (index === words.length - 1) return word;
+    const separator = keepBreaks && separators[index].includes('\n') ? '\n' : ' ';
+    return { ...word, text: `${word.text}${separator}` };
+  });
+}